@@ -1,10 +1,18 @@
 import React from 'react';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { useInvestmentData } from './hooks/useInvestmentData';
+import { useAutoRefresh } from './hooks/useAutoRefresh';
 import { InvestmentSummary } from './components/InvestmentSummary';
 import { DividendSchedule } from './components/DividendSchedule';
+import { DividendCalendar } from './components/DividendCalendar';
 import { TransactionHistory } from './components/TransactionHistory';
 import { SessionManager } from './components/SessionManager';
+import { TaxLots } from './components/TaxLots';
+import { PriceHistoryPanel } from './components/PriceHistoryPanel';
+import { MarketDataSettings } from './components/MarketDataSettings';
+import { ScheduleEditor } from './components/ScheduleEditor';
+import { TaxYearReclassification } from './components/TaxYearReclassification';
+import { PortfolioChart } from './components/PortfolioChart';
 import { PieChart, TrendingUp, EyeOff, Link } from 'lucide-react';
 
 function App() {
@@ -12,24 +20,64 @@ function App() {
     sessionId,
     isReadOnly,
     isPortableMode,
-    investment, 
+    investments, 
+    portfolioTotals,
     transactions, 
     dividends, 
-    currentPrice,
+    lots,
+    disposals,
+    excessROCGains,
+    reinvestments,
+    oversells,
+    lotsOpenOn,
+    currentPrices,
+    settings,
+    priceHistory,
+    scheduleState,
+    reclassificationImpact,
+    timeline,
+    marketData,
     addTransaction, 
     updateTransaction, 
     removeTransaction,
     clearAllTransactions,
     updateCurrentPrice,
     updateHoldings,
+    updateSettings,
+    updatePriceHistory,
+    removePricePoint,
     createNewSession,
     getShareableURL,
     getReadOnlyShareableURL,
     getPortableURL,
     updateDividendData,
+    saveScheduleEntry,
+    deleteScheduleEntry,
+    importSection19a,
+    reclassifyYear,
+    undoReclassification,
+    rollbackSchedule,
     addTransactionsBatch,
   } = useInvestmentData();
 
+  // Background price and declaration checks while the app is open
+  const { lastSynced, isRefreshing, markSynced } = useAutoRefresh({
+    sessionId,
+    enabled: !isReadOnly && !isPortableMode,
+    intervalMinutes: settings.autoRefreshMinutes,
+    marketData,
+    symbols: investments.map(inv => inv.symbol),
+    schedules: scheduleState.schedules,
+    onPrice: updateCurrentPrice,
+    onDividends: (symbol, rows) => updateDividendData(rows, undefined, symbol),
+  });
+
+  // First trade per ticker, where a price history fetch starts
+  const firstTradeDates = transactions.reduce<Record<string, string>>((dates, t) => {
+    if (!dates[t.symbol] || t.date < dates[t.symbol]) dates[t.symbol] = t.date;
+    return dates;
+  }, {});
+
   return (
     <ErrorBoundary>
       <div className="min-h-screen bg-gray-900">
@@ -74,10 +122,10 @@ function App() {
                   getShareableURL={getShareableURL}
                   getReadOnlyShareableURL={getReadOnlyShareableURL}
                   getPortableURL={getPortableURL}
-                  investment={investment}
+                  investments={investments}
                   transactions={transactions}
                   dividends={dividends}
-                  currentPrice={currentPrice}
+                  currentPrices={currentPrices}
                 />
               </div>
             </div>
@@ -89,17 +137,30 @@ function App() {
           <div className="space-y-8">
             {/* Investment Summary - Always show, even without investment data */}
             <InvestmentSummary 
-              investment={investment}
-              currentPrice={currentPrice}
+              investments={investments}
+              totals={portfolioTotals}
+              disposals={disposals}
+              excessROCGains={excessROCGains}
+              dividends={dividends}
+              estimationModel={settings.estimationModel}
+              currentPrices={currentPrices}
+              marketData={marketData}
               onPriceUpdate={updateCurrentPrice}
+              onPricesSynced={() => markSynced('prices')}
               onHoldingsUpdate={updateHoldings}
               isReadOnly={isReadOnly}
             />
 
+            {/* Value over time - shown in read-only reports too */}
+            {transactions.length > 0 && <PortfolioChart timeline={timeline} />}
+
             {/* Transaction History - Hidden in read-only mode */}
             {!isReadOnly && (
               <TransactionHistory 
                 transactions={transactions}
+                lotsOpenOn={lotsOpenOn}
+                oversells={oversells}
+                reinvestments={reinvestments}
                 onAddTransaction={addTransaction}
                 onUpdateTransaction={updateTransaction}
                 onRemoveTransaction={removeTransaction}
@@ -108,16 +169,93 @@ function App() {
               />
             )}
 
+            {/* Open tax lots */}
+            {transactions.length > 0 && (
+              <TaxLots
+                lots={lots}
+                lotMethod={settings.lotMethod}
+                onLotMethodChange={lotMethod => updateSettings({ lotMethod })}
+                currentPrices={currentPrices}
+                isReadOnly={isReadOnly}
+              />
+            )}
+
+            {/* Where quotes, closes and dividends are fetched from */}
+            {!isReadOnly && (
+              <MarketDataSettings
+                provider={settings.marketDataProvider}
+                onProviderChange={marketDataProvider => updateSettings({ marketDataProvider })}
+                autoRefreshMinutes={settings.autoRefreshMinutes}
+                onAutoRefreshChange={autoRefreshMinutes => updateSettings({ autoRefreshMinutes })}
+                lastSynced={lastSynced}
+                isRefreshing={isRefreshing}
+                schedules={scheduleState.schedules}
+              />
+            )}
+
+            {/* Daily closes used for past valuations and DRIP pricing */}
+            {investments.length > 0 && (
+              <PriceHistoryPanel
+                symbols={investments.map(inv => inv.symbol)}
+                priceHistory={priceHistory}
+                startDates={firstTradeDates}
+                onAddPrices={updatePriceHistory}
+                onRemovePrice={removePricePoint}
+                marketData={marketData}
+                isReadOnly={isReadOnly}
+              />
+            )}
+
             {/* Dividend Schedule */}
             {dividends.length > 0 && (
               <DividendSchedule 
                 dividends={dividends} 
-                transactions={transactions}
                 isReadOnly={isReadOnly}
                 onUpdateDividends={updateDividendData}
-                currentPrice={currentPrice}
+                onDividendsSynced={() => markSynced('dividends')}
+                currentPrices={currentPrices}
+                marketData={marketData}
+                dripPercentage={settings.dripPercentage}
+                onDripChange={dripPercentage => updateSettings({ dripPercentage })}
+                estimationModel={settings.estimationModel}
+                estimationLookback={settings.estimationLookback}
+                projectionHorizon={settings.projectionHorizon}
+                projectionEndDate={settings.projectionEndDate}
+                onEstimationChange={updateSettings}
+              />
+            )}
+
+            {/* Ex-dates and pay dates by month */}
+            {dividends.length > 0 && <DividendCalendar dividends={dividends} />}
+
+            {/* Confirmed distributions, editable per session */}
+            {!isReadOnly && (
+              <ScheduleEditor
+                symbols={Array.from(new Set([
+                  ...Object.keys(scheduleState.schedules),
+                  ...investments.map(inv => inv.symbol),
+                ])).sort()}
+                schedules={scheduleState.schedules}
+                revisions={scheduleState.revisions}
+                onSaveEntry={saveScheduleEntry}
+                onDeleteEntry={deleteScheduleEntry}
+                onRollback={rollbackSchedule}
+                onImport19a={importSection19a}
               />
             )}
+
+            {/* Final 1099-DIV character per tax year and what it changed */}
+            <TaxYearReclassification
+              symbols={Array.from(new Set([
+                ...Object.keys(scheduleState.schedules),
+                ...investments.map(inv => inv.symbol),
+              ])).sort()}
+              schedules={scheduleState.schedules}
+              impacts={reclassificationImpact}
+              onReclassify={reclassifyYear}
+              onUndo={undoReclassification}
+              isReadOnly={isReadOnly}
+            />
           </div>
         </main>
 
@@ -125,7 +263,7 @@ function App() {
         <footer className="bg-gray-800 border-t border-gray-700 mt-16">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
             <div className="text-center text-sm text-gray-400">
-              <p>Investment tracking for ULTY with automatic cost basis adjustments</p>
+              <p>Investment tracking for ULTY and other option-income ETFs with automatic cost basis adjustments</p>
               <p className="mt-1">
                 Data updates in real-time • ROC calculations included • Session: {sessionId}
                 {isReadOnly && <span className="text-purple-400"> • Portfolio Report Mode</span>}
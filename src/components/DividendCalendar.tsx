@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { Dividend } from '../types/investment';
+import { CalendarDays, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { TradingCalendar } from '../utils/tradingCalendar';
+
+interface DividendCalendarProps {
+  dividends: Dividend[];
+}
+
+type DistributionStatus = 'paid' | 'declared' | 'estimated';
+
+interface CalendarEntry {
+  dividend: Dividend;
+  kind: 'ex' | 'pay';
+  status: DistributionStatus;
+}
+
+const STATUS_STYLES: Record<DistributionStatus, string> = {
+  paid: 'bg-green-900/40 border-green-700 text-green-200',
+  declared: 'bg-blue-900/40 border-blue-700 text-blue-200',
+  estimated: 'bg-yellow-900/20 border-yellow-700 border-dashed text-yellow-200',
+};
+
+const STATUS_LABELS: Record<DistributionStatus, string> = {
+  paid: 'Paid',
+  declared: 'Declared',
+  estimated: 'Estimated',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DividendCalendar: React.FC<DividendCalendarProps> = ({ dividends }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [month, setMonth] = useState(today.slice(0, 7)); // YYYY-MM
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  // Confirmed rows are paid once the pay date arrives, declared until then
+  const getStatus = (div: Dividend): DistributionStatus =>
+    div.isEstimated ? 'estimated' : div.payDate <= today ? 'paid' : 'declared';
+
+  // Every distribution appears on its ex-date and on its pay date
+  const entriesByDate = dividends.reduce<Record<string, CalendarEntry[]>>((entries, dividend) => {
+    const status = getStatus(dividend);
+    (['ex', 'pay'] as const).forEach(kind => {
+      const date = kind === 'ex' ? dividend.exDate : dividend.payDate;
+      entries[date] = entries[date] || [];
+      entries[date].push({ dividend, kind, status });
+    });
+    return entries;
+  }, {});
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(amount);
+
+  const formatDate = (dateString: string) =>
+    new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  // Weeks of the visible month, padded with the neighbouring months' days
+  const [year, monthIndex] = month.split('-').map(Number);
+  const leadingDays = new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay();
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  const gridStart = TradingCalendar.shift(`${month}-01`, -leadingDays);
+  const weekCount = Math.ceil((leadingDays + daysInMonth) / 7);
+  const days = Array.from({ length: weekCount * 7 }, (_, i) => TradingCalendar.shift(gridStart, i));
+
+  const monthLabel = new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  const changeMonth = (offset: number) => {
+    const date = new Date(Date.UTC(year, monthIndex - 1 + offset, 1));
+    setMonth(date.toISOString().slice(0, 7));
+    setSelectedDate(null);
+  };
+
+  // Cash received in the visible month, by pay date
+  const monthPayments = dividends.filter(div => div.payDate.startsWith(month));
+  const monthTotal = monthPayments.reduce((sum, div) => sum + div.distributionAmount, 0);
+  const hasEstimates = monthPayments.some(div => div.isEstimated);
+
+  const selectedEntries = selectedDate ? entriesByDate[selectedDate] || [] : [];
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+        <div className="flex items-center">
+          <CalendarDays className="h-6 w-6 text-blue-400 mr-2" />
+          <div>
+            <h2 className="text-2xl font-bold text-white">Distribution Calendar</h2>
+            <p className="text-sm text-gray-400">
+              {monthTotal > 0
+                ? `${hasEstimates ? 'About ' : ''}${formatCurrency(monthTotal)} paid in ${monthLabel}`
+                : `No payments in ${monthLabel}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => changeMonth(-1)}
+            className="p-2 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+            title="Previous month"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <span className="w-36 text-center text-white font-medium">{monthLabel}</span>
+          <button
+            onClick={() => changeMonth(1)}
+            className="p-2 text-gray-300 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+            title="Next month"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => {
+              setMonth(today.slice(0, 7));
+              setSelectedDate(null);
+            }}
+            className="px-3 py-2 text-sm bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Today
+          </button>
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 mb-4 text-xs">
+        {(Object.keys(STATUS_LABELS) as DistributionStatus[]).map(status => (
+          <span key={status} className={`px-2 py-1 rounded border ${STATUS_STYLES[status]}`}>
+            {STATUS_LABELS[status]}
+          </span>
+        ))}
+        <span className="px-2 py-1 text-gray-400">Ex = ex-date, Pay = pay date</span>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="text-center text-xs font-medium text-gray-400 py-1">{day}</div>
+        ))}
+        {days.map(date => {
+          const entries = entriesByDate[date] || [];
+          const inMonth = date.startsWith(month);
+          const holiday = TradingCalendar.holidayName(date);
+          return (
+            <button
+              key={date}
+              onClick={() => setSelectedDate(entries.length > 0 ? date : null)}
+              className={`min-h-[5.5rem] p-1 text-left rounded border transition-colors ${
+                date === selectedDate
+                  ? 'border-blue-500 bg-gray-700'
+                  : 'border-gray-700 hover:bg-gray-700/60'
+              } ${inMonth ? '' : 'opacity-40'} ${entries.length > 0 ? 'cursor-pointer' : 'cursor-default'}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className={`text-xs ${date === today ? 'px-1 rounded bg-blue-600 text-white' : 'text-gray-300'}`}>
+                  {Number(date.slice(8))}
+                </span>
+                {holiday && <span className="text-[10px] text-gray-500 truncate ml-1" title={holiday}>Closed</span>}
+              </div>
+              <div className="mt-1 space-y-1">
+                {entries.map(entry => (
+                  <div
+                    key={`${entry.dividend.id}-${entry.kind}`}
+                    className={`px-1 rounded border text-[11px] leading-tight truncate ${STATUS_STYLES[entry.status]}`}
+                  >
+                    {entry.kind === 'ex' ? 'Ex' : 'Pay'} {entry.dividend.symbol}
+                    {entry.kind === 'pay' && entry.dividend.distributionAmount > 0 && (
+                      <span className="block font-medium">{formatCurrency(entry.dividend.distributionAmount)}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Details for the selected day */}
+      {selectedDate && selectedEntries.length > 0 && (
+        <div className="mt-4 p-4 bg-gray-700 rounded-lg border border-gray-600">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold text-white">{formatDate(selectedDate)}</h3>
+            <button
+              onClick={() => setSelectedDate(null)}
+              className="p-1 text-gray-400 hover:text-white rounded transition-colors"
+              title="Close"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="space-y-3">
+            {selectedEntries.map(({ dividend, kind, status }) => (
+              <div key={`${dividend.id}-${kind}`} className={`p-3 rounded border ${STATUS_STYLES[status]}`}>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-semibold">
+                    {dividend.symbol} {kind === 'ex' ? 'ex-dividend' : 'payment'}
+                  </span>
+                  <span className="text-xs uppercase tracking-wide">{STATUS_LABELS[status]}</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm text-gray-200">
+                  <div>
+                    <p className="text-xs text-gray-400">Ex-Date</p>
+                    <p>{dividend.exDate}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Pay Date</p>
+                    <p>{dividend.payDate}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Per Share</p>
+                    <p>${dividend.distributionRate.toFixed(4)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Shares</p>
+                    <p>{dividend.shares.toLocaleString('en-US', { maximumFractionDigits: 4 })}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Amount</p>
+                    <p className="font-medium">{formatCurrency(dividend.distributionAmount)}</p>
+                    {dividend.distributionLow !== undefined && dividend.distributionHigh !== undefined && (
+                      <p className="text-xs text-gray-400">
+                        {formatCurrency(dividend.distributionLow)} – {formatCurrency(dividend.distributionHigh)}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-400">Return of Capital</p>
+                    <p>{dividend.rocPercentage}% ({formatCurrency(dividend.rocPortion)})</p>
+                  </div>
+                  {dividend.recordDate && (
+                    <div>
+                      <p className="text-xs text-gray-400">Record Date</p>
+                      <p>{dividend.recordDate}</p>
+                    </div>
+                  )}
+                  {dividend.reinvestedShares > 0 && (
+                    <div>
+                      <p className="text-xs text-gray-400">Reinvested</p>
+                      <p>{dividend.reinvestedShares.toFixed(4)} shares</p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
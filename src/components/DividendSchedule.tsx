@@ -1,26 +1,75 @@
 import React, { useState } from 'react';
-import { Dividend, Transaction } from '../types/investment';
-import { Calendar, DollarSign, TrendingDown, Sparkles, ChevronDown, ChevronUp, BarChart3, Star, RefreshCw } from 'lucide-react';
+import { Dividend, DistributionCharacter, EstimationModel, ProjectionHorizon } from '../types/investment';
+import { Calendar, DollarSign, TrendingDown, Sparkles, ChevronDown, ChevronUp, BarChart3, Star, RefreshCw, Repeat } from 'lucide-react';
 import { DividendUpdateModal } from './DividendUpdateModal';
+import { MARKET_DATA_PROVIDER_LABELS, MarketDataProvider } from '../services/marketDataProvider';
 import { YahooDividendData } from '../services/dividendUpdateService';
+import { Precision } from '../utils/precision';
+import { DEFAULT_SYMBOL } from '../data/dividendSchedule';
+import { ESTIMATION_MODEL_LABELS } from '../utils/estimationModels';
+import { PROJECTION_HORIZON_LABELS, ProjectionHorizons } from '../utils/projectionHorizon';
+import { CHARACTER_LABELS, TaxCharacter } from '../utils/taxCharacter';
+
+const ALL_SYMBOLS = 'ALL';
 
 interface DividendScheduleProps {
   dividends: Dividend[];
-  transactions: Transaction[];
   isReadOnly?: boolean;
-  onUpdateDividends?: (dividends: YahooDividendData[], currentPrice?: number) => void;
-  currentPrice: number;
+  onUpdateDividends?: (dividends: YahooDividendData[], currentPrice?: number, symbol?: string) => void;
+  onDividendsSynced?: () => void;
+  currentPrices: Record<string, number>;
+  marketData: MarketDataProvider;
+  dripPercentage?: number;
+  onDripChange?: (percentage: number) => void;
+  estimationModel: EstimationModel;
+  estimationLookback: number;
+  projectionHorizon: ProjectionHorizon;
+  projectionEndDate: string;
+  onEstimationChange?: (updates: {
+    estimationModel?: EstimationModel;
+    estimationLookback?: number;
+    projectionHorizon?: ProjectionHorizon;
+    projectionEndDate?: string;
+  }) => void;
 }
 
 export const DividendSchedule: React.FC<DividendScheduleProps> = ({ 
   dividends, 
-  transactions, 
   isReadOnly = false,
   onUpdateDividends,
-  currentPrice
+  onDividendsSynced,
+  currentPrices,
+  marketData,
+  dripPercentage = 0,
+  onDripChange,
+  estimationModel,
+  estimationLookback,
+  projectionHorizon,
+  projectionEndDate,
+  onEstimationChange,
 }) => {
   const [isExpanded, setIsExpanded] = useState(isReadOnly); // Auto-expand in read-only mode
   const [showUpdateModal, setShowUpdateModal] = useState(false);
+  const [symbolFilter, setSymbolFilter] = useState<string>(ALL_SYMBOLS);
+
+  const symbols = Array.from(new Set(dividends.map(div => div.symbol))).sort();
+  const activeFilter = symbols.includes(symbolFilter) ? symbolFilter : ALL_SYMBOLS;
+  const showSymbolColumn = activeFilter === ALL_SYMBOLS && symbols.length > 1;
+
+  // Updates apply to the filtered ticker, or to the default one when showing all
+  const updateSymbol = activeFilter !== ALL_SYMBOLS
+    ? activeFilter
+    : symbols.includes(DEFAULT_SYMBOL) ? DEFAULT_SYMBOL : symbols[0] || DEFAULT_SYMBOL;
+
+  // Fetches after the first sync only ask for ex-dates from the latest confirmed one on
+  const syncedThrough = dividends
+    .filter(div => div.symbol === updateSymbol && !div.isEstimated)
+    .reduce<string | undefined>((latest, div) => (!latest || div.exDate > latest ? div.exDate : latest), undefined);
+
+  // Ledger rows for the selected ticker, in date order across tickers
+  const visibleDividends = dividends
+    .filter(div => activeFilter === ALL_SYMBOLS || div.symbol === activeFilter)
+    .sort((a, b) => new Date(a.payDate).getTime() - new Date(b.payDate).getTime());
 
   const formatCurrency = (amount: number) => 
     new Intl.NumberFormat('en-US', { 
@@ -44,58 +93,65 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
 
   const getNextPaymentIndex = () => {
     const today = new Date();
-    return dividends.findIndex(div => new Date(div.payDate) > today);
+    return visibleDividends.findIndex(div => new Date(div.payDate) > today);
   };
 
   const nextPaymentIndex = getNextPaymentIndex();
 
+  const today = new Date().toISOString().split('T')[0];
+  const projectedThrough = ProjectionHorizons.endDate(projectionHorizon, today, projectionEndDate);
+
+  // Tax character of the distributions in each year
+  const characterByYear = TaxCharacter.summarizeByYear(visibleDividends);
+  const characterKeys = Object.keys(CHARACTER_LABELS) as (keyof DistributionCharacter)[];
+
+  // Rows are grouped by pay-date year, each with its distribution total
+  const yearTotals = visibleDividends.reduce<Record<string, { count: number; total: number }>>((totals, div) => {
+    const year = div.payDate.slice(0, 4);
+    totals[year] = totals[year] || { count: 0, total: 0 };
+    totals[year].count++;
+    totals[year].total += div.distributionAmount;
+    return totals;
+  }, {});
+  const showDripColumn = visibleDividends.some(div => div.reinvestedShares > 0);
+  const columnCount = 13 + (showSymbolColumn ? 1 : 0) + (showDripColumn ? 1 : 0);
+  const dripMode = dripPercentage <= 0 ? 'off' : dripPercentage >= 100 ? 'full' : 'partial';
+
+  const handleDripModeChange = (mode: string) => {
+    if (!onDripChange) return;
+    onDripChange(mode === 'full' ? 100 : mode === 'partial' ? 50 : 0);
+  };
+
   // Separate actual and estimated dividends for summary calculations
-  const actualDividends = dividends.filter(div => !div.isEstimated);
-  const estimatedDividends = dividends.filter(div => div.isEstimated);
+  const actualDividends = visibleDividends.filter(div => !div.isEstimated);
+  const estimatedDividends = visibleDividends.filter(div => div.isEstimated);
+
+  // Cumulative figures are per ticker, so take each ticker's final row
+  const finalRows = symbols
+    .filter(symbol => activeFilter === ALL_SYMBOLS || symbol === activeFilter)
+    .map(symbol => visibleDividends.filter(div => div.symbol === symbol).pop())
+    .filter((row): row is Dividend => row !== undefined);
 
   // Get summary data
   const actualTotal = actualDividends.reduce((sum, div) => sum + div.distributionAmount, 0);
   const estimatedTotal = estimatedDividends.reduce((sum, div) => sum + div.distributionAmount, 0);
-  const totalROC = dividends[dividends.length - 1]?.cumulativeROC || 0;
-  const finalBreakeven = dividends[dividends.length - 1]?.breakEvenPrice || 0;
+  const estimatedLow = estimatedDividends.reduce((sum, div) => sum + (div.distributionLow ?? div.distributionAmount), 0);
+  const estimatedHigh = estimatedDividends.reduce((sum, div) => sum + (div.distributionHigh ?? div.distributionAmount), 0);
+  const totalROC = finalRows.reduce((sum, row) => sum + row.cumulativeROC, 0);
+  const finalBreakeven = finalRows.length === 1 ? finalRows[0].breakEvenPrice : 0;
+  const finalAdjustedBasis = finalRows.reduce((sum, row) => sum + row.adjustedCostBasis, 0);
 
-  // Calculate portfolio summary at each dividend point
-  const createPortfolioSummary = () => {
-    const sortedTransactions = [...transactions].sort((a, b) => 
-      new Date(a.date).getTime() - new Date(b.date).getTime()
-    );
-
-    return dividends.map((dividend, index) => {
-      const divDate = new Date(dividend.payDate);
-      
-      // Calculate shares and cost basis at this dividend date
-      let sharesAtDate = 0;
-      let costBasisAtDate = 0;
-      
-      for (const transaction of sortedTransactions) {
-        const transactionDate = new Date(transaction.date);
-        if (transactionDate < divDate) {
-          sharesAtDate += transaction.type === 'buy' ? transaction.quantity : -transaction.quantity;
-          costBasisAtDate += transaction.type === 'buy' ? transaction.amount : -transaction.amount;
-        }
-      }
-      
-      const avgPrice = sharesAtDate > 0 ? costBasisAtDate / sharesAtDate : 0;
-      
-      return {
-        ...dividend,
-        portfolioShares: sharesAtDate,
-        portfolioCostBasis: costBasisAtDate,
-        portfolioAvgPrice: avgPrice,
-      };
-    });
-  };
-
-  const portfolioSummary = createPortfolioSummary();
+  // Holdings at each dividend point come straight from the engine's ledger
+  const portfolioSummary = visibleDividends.map(dividend => ({
+    ...dividend,
+    portfolioShares: dividend.shares,
+    portfolioCostBasis: dividend.costBasis,
+    portfolioAvgPrice: dividend.shares > 0 ? dividend.costBasis / dividend.shares : 0,
+  }));
 
   const handleUpdateDividends = (newDividends: YahooDividendData[], newCurrentPrice?: number) => {
     if (onUpdateDividends) {
-      onUpdateDividends(newDividends, newCurrentPrice);
+      onUpdateDividends(newDividends, newCurrentPrice, updateSymbol);
     }
     setShowUpdateModal(false);
   };
@@ -106,22 +162,73 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
         <div className="flex items-center">
           <Calendar className="h-6 w-6 text-blue-400 mr-2" />
           <h2 className="text-2xl font-bold text-white">
-            2025 Dividend Schedule
+            Dividend Schedule
+            {activeFilter !== ALL_SYMBOLS && (
+              <span className="ml-2 text-lg font-medium text-blue-300">{activeFilter}</span>
+            )}
             {isReadOnly && (
               <span className="ml-2 text-sm font-normal text-purple-300">(Portfolio Report)</span>
             )}
           </h2>
           <div className="ml-4 flex items-center text-sm text-gray-400">
             <Sparkles className="h-4 w-4 mr-1" />
-            <span>* Estimated based on 6-week average</span>
+            <span>
+              * Estimated by {ESTIMATION_MODEL_LABELS[estimationModel].toLowerCase()}, last {estimationLookback} distributions,
+              through {formatDate(projectedThrough)}
+            </span>
           </div>
         </div>
         <div className="flex items-center space-x-2">
+          {onDripChange && !isReadOnly ? (
+            <div className="flex items-center space-x-1" title="Reinvest distributions on their pay date">
+              <Repeat className="h-4 w-4 text-blue-400" />
+              <select
+                value={dripMode}
+                onChange={(e) => handleDripModeChange(e.target.value)}
+                className="px-2 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="off">DRIP Off</option>
+                <option value="partial">DRIP Partial</option>
+                <option value="full">DRIP Full</option>
+              </select>
+              {dripMode === 'partial' && (
+                <div className="flex items-center">
+                  <input
+                    type="number"
+                    min="1"
+                    max="99"
+                    value={dripPercentage}
+                    onChange={(e) => onDripChange(Math.min(Math.max(parseFloat(e.target.value) || 0, 0), 100))}
+                    className="w-16 px-2 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <span className="ml-1 text-sm text-gray-400">%</span>
+                </div>
+              )}
+            </div>
+          ) : dripPercentage > 0 && (
+            <span className="flex items-center text-sm text-blue-300">
+              <Repeat className="h-4 w-4 mr-1" />
+              DRIP {dripPercentage}%
+            </span>
+          )}
+          {symbols.length > 1 && (
+            <select
+              value={activeFilter}
+              onChange={(e) => setSymbolFilter(e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              title="Filter by ticker"
+            >
+              <option value={ALL_SYMBOLS}>All Tickers</option>
+              {symbols.map(symbol => (
+                <option key={symbol} value={symbol}>{symbol}</option>
+              ))}
+            </select>
+          )}
           {!isReadOnly && onUpdateDividends && (
             <button
               onClick={() => setShowUpdateModal(true)}
               className="flex items-center px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm"
-              title="Update dividend data from Polygon.io API"
+              title={`Update dividend data from ${MARKET_DATA_PROVIDER_LABELS[marketData.id]}`}
             >
               <RefreshCw className="h-4 w-4 mr-1" />
               Fetch Latest Data
@@ -148,6 +255,55 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
         </div>
       </div>
 
+      {/* Estimation model for future distributions */}
+      {onEstimationChange && !isReadOnly && (
+        <div className="mb-4 flex items-center flex-wrap gap-2 text-sm text-gray-300">
+          <Sparkles className="h-4 w-4 text-purple-400" />
+          <span>Estimate future distributions with</span>
+          <select
+            value={estimationModel}
+            onChange={(e) => onEstimationChange({ estimationModel: e.target.value as EstimationModel })}
+            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(ESTIMATION_MODEL_LABELS) as EstimationModel[]).map(model => (
+              <option key={model} value={model}>{ESTIMATION_MODEL_LABELS[model]}</option>
+            ))}
+          </select>
+          <span>over the last</span>
+          <input
+            type="number"
+            min="1"
+            max="52"
+            value={estimationLookback}
+            onChange={(e) => onEstimationChange({
+              estimationLookback: Math.min(Math.max(Math.round(parseFloat(e.target.value) || 1), 1), 52),
+            })}
+            className="w-16 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span>distributions</span>
+          <span className="ml-2">for the next</span>
+          <select
+            value={projectionHorizon}
+            onChange={(e) => onEstimationChange({ projectionHorizon: e.target.value as ProjectionHorizon })}
+            className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(Object.keys(PROJECTION_HORIZON_LABELS) as ProjectionHorizon[]).map(horizon => (
+              <option key={horizon} value={horizon}>{PROJECTION_HORIZON_LABELS[horizon]}</option>
+            ))}
+          </select>
+          {projectionHorizon === 'custom' && (
+            <input
+              type="date"
+              min={today}
+              value={projectionEndDate || projectedThrough}
+              onChange={(e) => onEstimationChange({ projectionEndDate: e.target.value })}
+              className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          <span className="text-xs text-gray-500">Ranges show ±1 standard deviation</span>
+        </div>
+      )}
+
       {/* Summary Cards - Always Visible */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <div className="p-4 bg-green-900/40 rounded-lg border-2 border-green-700 shadow-lg">
@@ -165,6 +321,11 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
           <p className="text-xl font-bold text-purple-100">
             {formatCurrency(estimatedTotal)}
           </p>
+          {estimatedHigh > estimatedLow && (
+            <p className="text-xs text-purple-300 mt-1">
+              Range {formatCurrency(estimatedLow)} – {formatCurrency(estimatedHigh)}
+            </p>
+          )}
         </div>
         <div className="p-4 bg-red-900/30 rounded-lg border border-red-800">
           <h3 className="text-sm font-medium text-red-300 mb-1">Total ROC Impact</h3>
@@ -172,13 +333,64 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
             {formatCurrency(totalROC)}
           </p>
         </div>
-        <div className="p-4 bg-purple-900/30 rounded-lg border border-purple-800">
-          <h3 className="text-sm font-medium text-purple-300 mb-1">Final Breakeven</h3>
-          <p className="text-xl font-bold text-purple-100">
-            {formatCurrency(finalBreakeven)}
+        {finalRows.length > 1 ? (
+          <div className="p-4 bg-purple-900/30 rounded-lg border border-purple-800">
+            <h3 className="text-sm font-medium text-purple-300 mb-1">Final Adj. Cost Basis</h3>
+            <p className="text-xl font-bold text-purple-100">
+              {formatCurrency(finalAdjustedBasis)}
+            </p>
+            <p className="text-xs text-purple-300 mt-1">Select a ticker for its breakeven</p>
+          </div>
+        ) : (
+          <div className="p-4 bg-purple-900/30 rounded-lg border border-purple-800">
+            <h3 className="text-sm font-medium text-purple-300 mb-1">Final Breakeven</h3>
+            <p className="text-xl font-bold text-purple-100">
+              {formatCurrency(finalBreakeven)}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Tax character totals per year */}
+      {characterByYear.length > 0 && (
+        <div className="mb-6 p-4 bg-gray-700/50 rounded-lg border border-gray-600 overflow-x-auto">
+          <h3 className="text-sm font-medium text-gray-300 mb-2">Tax Character by Year</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left pb-1 font-medium">Year</th>
+                {characterKeys.map(key => (
+                  <th key={key} className="text-right pb-1 px-2 font-medium">{CHARACTER_LABELS[key]}</th>
+                ))}
+                <th className="text-right pb-1 font-medium">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {characterByYear.map(summary => (
+                <tr key={summary.year} className="border-t border-gray-600 text-gray-200">
+                  <td className="py-1">
+                    {summary.year}
+                    {summary.hasEstimates && <span className="text-purple-300">*</span>}
+                  </td>
+                  {characterKeys.map(key => (
+                    <td
+                      key={key}
+                      className={`py-1 px-2 text-right ${key === 'returnOfCapital' ? 'text-red-300' : ''}`}
+                    >
+                      {formatCurrency(summary[key])}
+                    </td>
+                  ))}
+                  <td className="py-1 text-right font-medium text-green-300">{formatCurrency(summary.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-500">
+            From imported Section 19a sources where available; otherwise the non-ROC part is counted as ordinary income.
+            {characterByYear.some(summary => summary.hasEstimates) && ' * Includes estimated distributions.'}
           </p>
         </div>
-      </div>
+      )}
 
       {/* Detailed Table - Collapsible or Always Visible in Read-Only */}
       {isExpanded && (
@@ -198,13 +410,20 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b border-gray-600">
-                  <th className="text-left py-3 px-2 font-medium text-gray-300">Date</th>
+                  <th className="text-left py-3 px-2 font-medium text-gray-300">Pay Date</th>
+                  <th className="text-left py-3 px-2 font-medium text-gray-300">Ex-Date</th>
+                  {showSymbolColumn && (
+                    <th className="text-left py-3 px-2 font-medium text-gray-300">Symbol</th>
+                  )}
                   <th className="text-center py-3 px-2 font-medium text-gray-300">Event</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">Rate</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">Portfolio Shares</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">Avg Price</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">Cost Basis</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">Dividend Amount</th>
+                  {showDripColumn && (
+                    <th className="text-right py-3 px-2 font-medium text-gray-300">DRIP Shares</th>
+                  )}
                   <th className="text-center py-3 px-2 font-medium text-gray-300">ROC %</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">ROC Portion</th>
                   <th className="text-right py-3 px-2 font-medium text-gray-300">Cumulative ROC</th>
@@ -218,115 +437,151 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
                   const isNext = index === nextPaymentIndex;
                   const isEstimated = row.isEstimated;
                   const isActual = !isEstimated && isPast;
+                  const year = row.payDate.slice(0, 4);
+                  const startsYear = index === 0 || portfolioSummary[index - 1].payDate.slice(0, 4) !== year;
                   
                   return (
-                    <tr 
-                      key={row.id}
-                      className={`border-b border-gray-700 hover:bg-gray-700/50 transition-colors ${
-                        isNext ? 'bg-blue-900/30 border-blue-700' : ''
-                      } ${isPast && !isActual ? 'opacity-60' : ''} ${
-                        isEstimated ? 'bg-purple-900/20' : ''
-                      } ${isActual ? 'bg-green-900/20 border-green-800' : ''}`}
-                    >
-                      <td className="py-3 px-2 text-gray-200">
-                        <div className="flex items-center">
-                          {isNext && <div className="w-2 h-2 bg-blue-400 rounded-full mr-2" />}
-                          {isActual && <Star className="h-3 w-3 text-green-400 mr-1" />}
-                          {isEstimated && <Sparkles className="h-3 w-3 text-purple-400 mr-1" />}
-                          <span className={`${
-                            isNext ? 'font-semibold text-blue-200' : 
-                            isActual ? 'font-medium text-green-200' :
-                            isEstimated ? 'text-purple-200' : 'text-gray-200'
-                          }`}>
-                            {formatDate(row.payDate)}
-                            {isEstimated && '*'}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="py-3 px-2 text-center">
-                        <div className="flex items-center justify-center">
-                          <Calendar className={`h-3 w-3 mr-1 ${
-                            isActual ? 'text-green-400' :
-                            isEstimated ? 'text-purple-400' : 'text-blue-400'
-                          }`} />
-                          <span className={`text-xs font-medium ${
-                            isActual ? 'text-green-300' :
-                            isEstimated ? 'text-purple-300' : 'text-blue-300'
-                          }`}>
-                            Dividend
-                          </span>
-                        </div>
-                      </td>
-                      <td className={`py-3 px-2 text-right ${
-                        isActual ? 'text-green-200' :
-                        isEstimated ? 'text-purple-200' : 'text-gray-200'
-                      }`}>
-                        {formatCurrency(row.distributionRate)}
-                      </td>
-                      <td className="py-3 px-2 text-right text-blue-200 font-medium">
-                        {row.portfolioShares.toLocaleString()}
-                      </td>
-                      <td className="py-3 px-2 text-right text-gray-200">
-                        {formatCurrency(row.portfolioAvgPrice)}
-                      </td>
-                      <td className="py-3 px-2 text-right text-purple-200">
-                        {formatCurrency(row.portfolioCostBasis)}
-                      </td>
-                      <td className="py-3 px-2 text-right">
-                        <div className="flex items-center justify-end">
-                          <DollarSign className={`h-4 w-4 mr-1 ${
-                            isActual ? 'text-green-400' :
-                            isEstimated ? 'text-purple-400' : 'text-green-400'
-                          }`} />
-                          <span className={`font-medium ${
-                            isActual ? 'text-green-300 font-bold' :
-                            isEstimated ? 'text-purple-300' : 'text-green-300'
-                          }`}>
-                            {formatCurrency(row.distributionAmount)}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="py-3 px-2 text-center">
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium border ${
-                          isActual ? 'bg-green-900/50 text-green-300 border-green-800' :
-                          isEstimated ? 'bg-purple-900/50 text-purple-300 border-purple-800' : 'bg-red-900/50 text-red-300 border-red-800'
+                    <React.Fragment key={row.id}>
+                      {startsYear && (
+                        <tr className="bg-gray-900/60 border-b border-gray-600">
+                          <td colSpan={columnCount} className="py-2 px-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-base font-semibold text-white">{year}</span>
+                              <span className="text-sm text-gray-400">
+                                {yearTotals[year].count} distributions • {formatCurrency(yearTotals[year].total)}
+                              </span>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      <tr
+                        className={`border-b border-gray-700 hover:bg-gray-700/50 transition-colors ${
+                          isNext ? 'bg-blue-900/30 border-blue-700' : ''
+                        } ${isPast && !isActual ? 'opacity-60' : ''} ${
+                          isEstimated ? 'bg-purple-900/20' : ''
+                        } ${isActual ? 'bg-green-900/20 border-green-800' : ''}`}
+                      >
+                        <td className="py-3 px-2 text-gray-200">
+                          <div className="flex items-center">
+                            {isNext && <div className="w-2 h-2 bg-blue-400 rounded-full mr-2" />}
+                            {isActual && <Star className="h-3 w-3 text-green-400 mr-1" />}
+                            {isEstimated && <Sparkles className="h-3 w-3 text-purple-400 mr-1" />}
+                            <span className={`${
+                              isNext ? 'font-semibold text-blue-200' : 
+                              isActual ? 'font-medium text-green-200' :
+                              isEstimated ? 'text-purple-200' : 'text-gray-200'
+                            }`}>
+                              {formatDate(row.payDate)}
+                              {isEstimated && '*'}
+                            </span>
+                          </div>
+                        </td>
+                        <td className="py-3 px-2 text-gray-400">
+                          {formatDate(row.exDate)}
+                        </td>
+                        {showSymbolColumn && (
+                          <td className="py-3 px-2 font-medium text-blue-200">{row.symbol}</td>
+                        )}
+                        <td className="py-3 px-2 text-center">
+                          <div className="flex items-center justify-center">
+                            <Calendar className={`h-3 w-3 mr-1 ${
+                              isActual ? 'text-green-400' :
+                              isEstimated ? 'text-purple-400' : 'text-blue-400'
+                            }`} />
+                            <span className={`text-xs font-medium ${
+                              isActual ? 'text-green-300' :
+                              isEstimated ? 'text-purple-300' : 'text-blue-300'
+                            }`}>
+                              Dividend
+                            </span>
+                          </div>
+                        </td>
+                        <td className={`py-3 px-2 text-right ${
+                          isActual ? 'text-green-200' :
+                          isEstimated ? 'text-purple-200' : 'text-gray-200'
                         }`}>
-                          {row.rocPercentage}%
-                        </span>
-                      </td>
-                      <td className="py-3 px-2 text-right">
-                        <div className="flex items-center justify-end">
-                          <TrendingDown className={`h-4 w-4 mr-1 ${
-                            isActual ? 'text-green-400' :
-                            isEstimated ? 'text-purple-400' : 'text-red-400'
-                          }`} />
-                          <span className={`font-medium ${
-                            isActual ? 'text-green-300' :
-                            isEstimated ? 'text-purple-300' : 'text-red-300'
+                          {formatCurrency(row.distributionRate)}
+                        </td>
+                        <td className="py-3 px-2 text-right text-blue-200 font-medium">
+                          {Precision.formatShares(row.portfolioShares)}
+                        </td>
+                        <td className="py-3 px-2 text-right text-gray-200">
+                          {formatCurrency(row.portfolioAvgPrice)}
+                        </td>
+                        <td className="py-3 px-2 text-right text-purple-200">
+                          {formatCurrency(row.portfolioCostBasis)}
+                        </td>
+                        <td className="py-3 px-2 text-right">
+                          <div className="flex items-center justify-end">
+                            <DollarSign className={`h-4 w-4 mr-1 ${
+                              isActual ? 'text-green-400' :
+                              isEstimated ? 'text-purple-400' : 'text-green-400'
+                            }`} />
+                            <span className={`font-medium ${
+                              isActual ? 'text-green-300 font-bold' :
+                              isEstimated ? 'text-purple-300' : 'text-green-300'
+                            }`}>
+                              {formatCurrency(row.distributionAmount)}
+                            </span>
+                          </div>
+                          {isEstimated && row.distributionHigh !== undefined && row.distributionHigh > (row.distributionLow ?? 0) && (
+                            <div className="text-xs text-purple-400">
+                              {formatCurrency(row.distributionLow ?? 0)} – {formatCurrency(row.distributionHigh)}
+                            </div>
+                          )}
+                        </td>
+                        {showDripColumn && (
+                          <td className="py-3 px-2 text-right text-blue-200">
+                            {row.reinvestedShares > 0 ? `+${Precision.formatShares(row.reinvestedShares)}` : '—'}
+                          </td>
+                        )}
+                        <td className="py-3 px-2 text-center">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium border ${
+                            isActual ? 'bg-green-900/50 text-green-300 border-green-800' :
+                            isEstimated ? 'bg-purple-900/50 text-purple-300 border-purple-800' : 'bg-red-900/50 text-red-300 border-red-800'
                           }`}>
-                            {formatCurrency(row.rocPortion)}
+                            {row.rocPercentage}%
                           </span>
-                        </div>
-                      </td>
-                      <td className={`py-3 px-2 text-right font-medium ${
-                        isActual ? 'text-green-300' :
-                        isEstimated ? 'text-purple-300' : 'text-purple-300'
-                      }`}>
-                        {formatCurrency(row.cumulativeROC)}
-                      </td>
-                      <td className={`py-3 px-2 text-right font-medium ${
-                        isActual ? 'text-green-300' :
-                        isEstimated ? 'text-purple-300' : 'text-purple-300'
-                      }`}>
-                        {formatCurrency(row.adjustedCostBasis)}
-                      </td>
-                      <td className={`py-3 px-2 text-right font-medium ${
-                        isActual ? 'text-green-200' :
-                        isEstimated ? 'text-purple-300' : 'text-purple-200'
-                      }`}>
-                        {formatCurrency(row.breakEvenPrice)}
-                      </td>
-                    </tr>
+                        </td>
+                        <td className="py-3 px-2 text-right">
+                          <div className="flex items-center justify-end">
+                            <TrendingDown className={`h-4 w-4 mr-1 ${
+                              isActual ? 'text-green-400' :
+                              isEstimated ? 'text-purple-400' : 'text-red-400'
+                            }`} />
+                            <span className={`font-medium ${
+                              isActual ? 'text-green-300' :
+                              isEstimated ? 'text-purple-300' : 'text-red-300'
+                            }`}>
+                              {formatCurrency(row.rocPortion)}
+                            </span>
+                          </div>
+                          {row.excessROC > 0 && (
+                            <div className="text-xs text-yellow-300" title="ROC beyond remaining basis is taxed as a capital gain">
+                              {formatCurrency(row.excessROC)} over basis
+                            </div>
+                          )}
+                        </td>
+                        <td className={`py-3 px-2 text-right font-medium ${
+                          isActual ? 'text-green-300' :
+                          isEstimated ? 'text-purple-300' : 'text-purple-300'
+                        }`}>
+                          {formatCurrency(row.cumulativeROC)}
+                        </td>
+                        <td className={`py-3 px-2 text-right font-medium ${
+                          isActual ? 'text-green-300' :
+                          isEstimated ? 'text-purple-300' : 'text-purple-300'
+                        }`}>
+                          {formatCurrency(row.adjustedCostBasis)}
+                        </td>
+                        <td className={`py-3 px-2 text-right font-medium ${
+                          isActual ? 'text-green-200' :
+                          isEstimated ? 'text-purple-300' : 'text-purple-200'
+                        }`}>
+                          {formatCurrency(row.breakEvenPrice)}
+                        </td>
+                      </tr>
+                    </React.Fragment>
                   );
                 })}
               </tbody>
@@ -336,8 +591,10 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
           <div className="mt-4 p-3 bg-blue-900/20 border border-blue-800 rounded-lg">
             <p className="text-sm text-blue-200">
               <strong>Portfolio Evolution:</strong> This table shows how your portfolio changes with each dividend payment. 
-              The Portfolio Shares, Avg Price, and Cost Basis columns show your holdings at the time of each dividend, 
+              The Portfolio Shares, Avg Price, and Cost Basis columns show your holdings going into each ex-dividend date 
+              (shares bought on or after the ex-date don't qualify; shares sold on or after it still do), 
               while the ROC adjustments progressively reduce your cost basis and breakeven price.
+              {showDripColumn && ' DRIP shares are bought on the pay date and count from the next ex-date onward.'}
             </p>
           </div>
         </div>
@@ -348,7 +605,11 @@ export const DividendSchedule: React.FC<DividendScheduleProps> = ({
         isOpen={showUpdateModal}
         onClose={() => setShowUpdateModal(false)}
         onUpdateDividends={handleUpdateDividends}
-        currentPrice={currentPrice}
+        symbol={updateSymbol}
+        currentPrice={currentPrices[updateSymbol] || 0}
+        syncedThrough={syncedThrough}
+        marketData={marketData}
+        onSynced={onDividendsSynced}
       />
     </div>
   );
@@ -1,40 +1,65 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { RefreshCw, ExternalLink, Plus, Trash2, Save, X, AlertCircle, CheckCircle } from 'lucide-react';
 import { DividendUpdateService, YahooDividendData } from '../services/dividendUpdateService';
+import { MARKET_DATA_PROVIDER_LABELS, MarketDataProvider } from '../services/marketDataProvider';
+import { ResponseCache } from '../services/requestCache';
 
 interface DividendUpdateModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUpdateDividends: (dividends: YahooDividendData[], currentPrice?: number) => void;
+  symbol: string;
   currentPrice: number;
+  marketData: MarketDataProvider;
+  syncedThrough?: string; // latest confirmed ex-date; later fetches start here
+  onSynced?: () => void; // distributions were fetched from the provider
 }
 
 export const DividendUpdateModal: React.FC<DividendUpdateModalProps> = ({
   isOpen,
   onClose,
   onUpdateDividends,
+  symbol,
   currentPrice,
+  marketData,
+  syncedThrough,
+  onSynced,
 }) => {
+  const providerLabel = MARKET_DATA_PROVIDER_LABELS[marketData.id];
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [manualMode, setManualMode] = useState(false);
+  const [fullHistory, setFullHistory] = useState(false);
   const [newPrice, setNewPrice] = useState(currentPrice);
   const [manualDividends, setManualDividends] = useState<YahooDividendData[]>([
     { date: new Date().toISOString().split('T')[0], amount: 0 }
   ]);
 
+  // Start from the selected ticker's price each time the modal opens
+  useEffect(() => {
+    if (isOpen) setNewPrice(currentPrice);
+  }, [isOpen, currentPrice]);
+
   const handleAutoUpdate = async () => {
     setIsLoading(true);
     setError(null);
     setSuccess(null);
 
     try {
-      const result = await DividendUpdateService.fetchLatestDividends();
+      const result = await DividendUpdateService.fetchLatestDividends(
+        symbol,
+        marketData,
+        fullHistory ? undefined : syncedThrough
+      );
       
       if (result.success && result.data) {
         onUpdateDividends(result.data, result.currentPrice);
-        setSuccess(`Successfully updated with ${result.data.length} dividend entries`);
+        onSynced?.();
+        const cacheNote = result.fromCache && result.fetchedAt
+          ? ` (from cache, fetched ${ResponseCache.formatAge(result.fetchedAt)})`
+          : '';
+        setSuccess(`Successfully updated with ${result.data.length} dividend entries${cacheNote}${result.warning ? `. ${result.warning}` : ''}`);
         setTimeout(() => {
           onClose();
         }, 2000);
@@ -85,7 +110,7 @@ export const DividendUpdateModal: React.FC<DividendUpdateModalProps> = ({
   };
 
   const openYahooFinance = () => {
-    window.open('https://finance.yahoo.com/quote/ULTY/history/?filter=div', '_blank');
+    window.open(`https://finance.yahoo.com/quote/${symbol}/history/?filter=div`, '_blank');
   };
 
   if (!isOpen) return null;
@@ -96,7 +121,7 @@ export const DividendUpdateModal: React.FC<DividendUpdateModalProps> = ({
         <div className="flex items-center justify-between mb-6">
           <div className="flex items-center">
             <RefreshCw className="h-6 w-6 text-blue-400 mr-2" />
-            <h3 className="text-xl font-semibold text-white">Update Dividend Data</h3>
+            <h3 className="text-xl font-semibold text-white">Update {symbol} Dividend Data</h3>
           </div>
           <button
             onClick={onClose}
@@ -133,16 +158,27 @@ export const DividendUpdateModal: React.FC<DividendUpdateModalProps> = ({
               <div className="flex items-start">
                 <RefreshCw className="h-5 w-5 text-blue-400 mr-2 mt-0.5 flex-shrink-0" />
                 <div className="text-sm text-blue-200">
-                  <p className="font-medium mb-2">Automatic Update from Polygon.io</p>
+                  <p className="font-medium mb-2">Automatic Update from {providerLabel}</p>
                   <p className="mb-3">
-                    This will fetch the latest dividend data and current stock price from Polygon.io API.
+                    This will fetch the latest dividend data and current stock price from {providerLabel}.
                   </p>
+                  {syncedThrough && (
+                    <label className="flex items-center mb-3 text-blue-100">
+                      <input
+                        type="checkbox"
+                        checked={fullHistory}
+                        onChange={(e) => setFullHistory(e.target.checked)}
+                        className="mr-2"
+                      />
+                      Fetch full history (otherwise only ex-dates from {syncedThrough} on)
+                    </label>
+                  )}
                   <button
                     onClick={openYahooFinance}
                     className="inline-flex items-center text-blue-300 hover:text-blue-200 underline"
                   >
                     <ExternalLink className="h-4 w-4 mr-1" />
-                    View ULTY Dividend History on Yahoo Finance (Reference)
+                    View {symbol} Dividend History on Yahoo Finance (Reference)
                   </button>
                 </div>
               </div>
@@ -157,7 +193,7 @@ export const DividendUpdateModal: React.FC<DividendUpdateModalProps> = ({
                 {isLoading ? (
                   <>
                     <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Fetching from Polygon.io...
+                    Fetching from {providerLabel}...
                   </>
                 ) : (
                   <>
@@ -231,7 +267,7 @@ export const DividendUpdateModal: React.FC<DividendUpdateModalProps> = ({
                 {manualDividends.map((dividend, index) => (
                   <div key={index} className="flex items-center gap-3 p-3 bg-gray-700 rounded-lg border border-gray-600">
                     <div className="flex-1">
-                      <label className="block text-xs text-gray-400 mb-1">Date</label>
+                      <label className="block text-xs text-gray-400 mb-1">Pay Date</label>
                       <input
                         type="date"
                         value={dividend.date}
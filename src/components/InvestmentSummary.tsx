@@ -1,29 +1,80 @@
 import React, { useState } from 'react';
-import { Investment } from '../types/investment';
-import { TrendingUp, TrendingDown, DollarSign, Percent, Edit2, Save, X, Target } from 'lucide-react';
+import { Dividend, EstimationModel, ExcessROCGain, Investment, LotDisposal, PortfolioTotals } from '../types/investment';
+import { DEFAULT_SYMBOL } from '../data/dividendSchedule';
+import { TaxLotManager } from '../utils/taxLots';
+import { Precision } from '../utils/precision';
+import { ESTIMATION_MODEL_LABELS } from '../utils/estimationModels';
+import { IncomeForecast } from '../utils/incomeForecast';
+import { TrendingUp, TrendingDown, DollarSign, Percent, Edit2, Save, X, Target, Layers, Sparkles } from 'lucide-react';
 import { PriceUpdater } from './PriceUpdater';
+import { MarketDataProvider } from '../services/marketDataProvider';
+
+const ALL_HOLDINGS = 'ALL';
 
 interface InvestmentSummaryProps {
-  investment: Investment | null;
-  onPriceUpdate: (price: number) => void;
-  onHoldingsUpdate?: (shares: number, avgPrice: number) => void;
-  currentPrice: number;
+  investments: Investment[];
+  totals: PortfolioTotals | null;
+  disposals?: LotDisposal[];
+  excessROCGains?: ExcessROCGain[];
+  dividends?: Dividend[];
+  estimationModel?: EstimationModel;
+  onPriceUpdate: (symbol: string, price: number) => void;
+  onPricesSynced?: () => void;
+  onHoldingsUpdate?: (symbol: string, shares: number, avgPrice: number) => void;
+  currentPrices: Record<string, number>;
+  marketData: MarketDataProvider;
   isReadOnly?: boolean;
 }
 
 export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
-  investment,
+  investments,
+  totals,
+  disposals = [],
+  excessROCGains = [],
+  dividends = [],
+  estimationModel = 'mean',
   onPriceUpdate,
+  onPricesSynced,
   onHoldingsUpdate,
-  currentPrice,
+  currentPrices,
+  marketData,
   isReadOnly = false,
 }) => {
+  const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
   const [isEditingHoldings, setIsEditingHoldings] = useState(false);
   const [editHoldings, setEditHoldings] = useState({
-    shares: investment?.shares || 0,
-    avgPrice: investment?.avgPrice || 0,
+    shares: 0,
+    avgPrice: 0,
   });
 
+  // Default to the combined view when there is more than one holding, and fall
+  // back to it if the selected holding disappears
+  const hasMultipleHoldings = investments.length > 1;
+  const defaultSymbol = hasMultipleHoldings ? ALL_HOLDINGS : investments[0]?.symbol || DEFAULT_SYMBOL;
+  const isKnownSelection = selectedSymbol === ALL_HOLDINGS
+    ? hasMultipleHoldings
+    : investments.some(inv => inv.symbol === selectedSymbol);
+  const activeSymbol = selectedSymbol && isKnownSelection ? selectedSymbol : defaultSymbol;
+  const showAllHoldings = activeSymbol === ALL_HOLDINGS;
+  const investment = investments.find(inv => inv.symbol === activeSymbol) || null;
+  const currentPrice = investment?.currentPrice ?? currentPrices[activeSymbol] ?? 0;
+
+  // Realized and unrealized figures for whichever view is showing
+  const gainFigures = showAllHoldings ? totals : investment;
+  const inView = <T extends { symbol: string }>(items: T[]) =>
+    showAllHoldings ? items : items.filter(item => item.symbol === activeSymbol);
+  const yearlyRealized = TaxLotManager.summarizeByYear(inView(disposals), inView(excessROCGains));
+  const hasExcessROC = yearlyRealized.some(summary => summary.excessROC !== 0);
+
+  // Forward income at current holdings from the active estimation schedule
+  const today = new Date().toISOString().split('T')[0];
+  const forecast = IncomeForecast.forecast(
+    inView(dividends),
+    showAllHoldings ? investments : investment ? [investment] : [],
+    today
+  );
+  const hasForecast = forecast.windows.some(window => window.distributions > 0);
+
   const formatCurrency = (amount: number) => 
     new Intl.NumberFormat('en-US', { 
       style: 'currency', 
@@ -36,13 +87,26 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
 
   const isPositive = (value: number) => value >= 0;
 
+  const handleStartEditHoldings = () => {
+    setEditHoldings({
+      shares: investment?.shares || 0,
+      avgPrice: investment?.avgPrice || 0,
+    });
+    setIsEditingHoldings(true);
+  };
+
   const handleSaveHoldings = () => {
     if (onHoldingsUpdate && !isReadOnly) {
-      onHoldingsUpdate(editHoldings.shares, editHoldings.avgPrice);
+      onHoldingsUpdate(activeSymbol, editHoldings.shares, editHoldings.avgPrice);
     }
     setIsEditingHoldings(false);
   };
 
+  const handleSelectSymbol = (symbol: string) => {
+    setSelectedSymbol(symbol);
+    setIsEditingHoldings(false);
+  };
+
   const handleCancelEdit = () => {
     setEditHoldings({
       shares: investment?.shares || 0,
@@ -55,28 +119,156 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
     <div className="bg-gray-800 rounded-lg shadow-xl p-6 mb-6 border border-gray-700">
       <div className="flex items-center justify-between mb-6">
         <div>
-          <h1 className="text-3xl font-bold text-white">ULTY</h1>
+          <h1 className="text-3xl font-bold text-white">{showAllHoldings ? 'All Holdings' : activeSymbol}</h1>
           <p className="text-gray-400">
             Investment Portfolio {isReadOnly && <span className="text-purple-400">(Read-Only)</span>}
           </p>
         </div>
-        <div className="flex items-center space-x-2">
-          <div className="text-right mr-4">
-            <label className="block text-sm font-medium text-gray-300 mb-1">
-              Current ULTY Price
-            </label>
-            <p className="text-xs text-gray-400">Market price (15min delayed)</p>
+        {!showAllHoldings && (
+          <div className="flex items-center space-x-2">
+            <div className="text-right mr-4">
+              <label className="block text-sm font-medium text-gray-300 mb-1">
+                Current {activeSymbol} Price
+              </label>
+              <p className="text-xs text-gray-400">Market price (15min delayed)</p>
+            </div>
+            <PriceUpdater
+              key={activeSymbol}
+              currentPrice={currentPrice}
+              onPriceUpdate={(price) => onPriceUpdate(activeSymbol, price)}
+              isReadOnly={isReadOnly}
+              symbol={activeSymbol}
+              marketData={marketData}
+              onSynced={onPricesSynced}
+            />
           </div>
-          <PriceUpdater
-            currentPrice={currentPrice}
-            onPriceUpdate={onPriceUpdate}
-            isReadOnly={isReadOnly}
-            symbol="ULTY"
-          />
-        </div>
+        )}
       </div>
 
-      {investment && (
+      {/* Holding Selector - only needed once there is more than one ticker */}
+      {hasMultipleHoldings && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {[ALL_HOLDINGS, ...investments.map(inv => inv.symbol)].map(symbol => (
+            <button
+              key={symbol}
+              onClick={() => handleSelectSymbol(symbol)}
+              className={`flex items-center px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${
+                activeSymbol === symbol
+                  ? 'bg-blue-600 text-white border-blue-500'
+                  : 'bg-gray-700 text-gray-300 border-gray-600 hover:bg-gray-600'
+              }`}
+            >
+              {symbol === ALL_HOLDINGS && <Layers className="h-4 w-4 mr-1" />}
+              {symbol === ALL_HOLDINGS ? 'All Holdings' : symbol}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showAllHoldings && totals && (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-3 px-2 font-medium text-gray-300">Symbol</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Shares</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Price</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Market Value</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Adj. Cost Basis</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Breakeven</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Dividends</th>
+                  <th className="text-right py-3 px-2 font-medium text-gray-300">Adjusted Total P&L</th>
+                </tr>
+              </thead>
+              <tbody>
+                {investments.map(inv => (
+                  <tr
+                    key={inv.symbol}
+                    onClick={() => handleSelectSymbol(inv.symbol)}
+                    className="border-b border-gray-700 hover:bg-gray-700/50 transition-colors cursor-pointer"
+                  >
+                    <td className="py-3 px-2 font-semibold text-blue-200">{inv.symbol}</td>
+                    <td className="py-3 px-2 text-right text-gray-200">{Precision.formatShares(inv.shares)}</td>
+                    <td className="py-3 px-2 text-right text-gray-200">{formatCurrency(inv.currentPrice)}</td>
+                    <td className="py-3 px-2 text-right text-green-200">{formatCurrency(inv.marketValue)}</td>
+                    <td className="py-3 px-2 text-right text-purple-200">{formatCurrency(inv.adjustedCostBasis)}</td>
+                    <td className="py-3 px-2 text-right text-purple-200">{formatCurrency(inv.breakEvenPrice)}</td>
+                    <td className="py-3 px-2 text-right text-purple-200">{formatCurrency(inv.totalDividends)}</td>
+                    <td className={`py-3 px-2 text-right font-medium ${isPositive(inv.adjustedTotalProfitLoss) ? 'text-green-300' : 'text-red-300'}`}>
+                      {formatCurrency(inv.adjustedTotalProfitLoss)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <div className="space-y-4">
+              <div className="p-4 bg-purple-900/30 rounded-lg border border-purple-800">
+                <h3 className="text-sm font-medium text-purple-300 mb-1">Original Cost Basis</h3>
+                <p className="text-xl font-semibold text-purple-100">{formatCurrency(totals.costBasis)}</p>
+              </div>
+              <div className="p-4 bg-purple-900/40 rounded-lg border-2 border-purple-700">
+                <h3 className="text-sm font-medium text-purple-300 mb-1">Adjusted Cost Basis</h3>
+                <p className="text-xl font-semibold text-purple-100">{formatCurrency(totals.adjustedCostBasis)}</p>
+                <p className="text-xs text-purple-300 mt-1">After ROC: {formatCurrency(totals.cumulativeROC)}</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="p-4 bg-green-900/30 rounded-lg border border-green-800">
+                <h3 className="text-sm font-medium text-green-300 mb-1">Market Value</h3>
+                <p className="text-xl font-semibold text-green-100">{formatCurrency(totals.marketValue)}</p>
+                <p className="text-xs text-green-300 mt-1">Across {totals.holdings} holdings</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className={`p-4 rounded-lg border ${isPositive(totals.capitalGainLoss) ? 'bg-green-900/30 border-green-800' : 'bg-red-900/30 border-red-800'}`}>
+                <h3 className={`text-sm font-medium mb-1 ${isPositive(totals.capitalGainLoss) ? 'text-green-300' : 'text-red-300'}`}>
+                  Capital Gain/Loss
+                </h3>
+                <div className="flex items-center">
+                  {isPositive(totals.capitalGainLoss) ? 
+                    <TrendingUp className="h-5 w-5 text-green-400 mr-1" /> : 
+                    <TrendingDown className="h-5 w-5 text-red-400 mr-1" />
+                  }
+                  <p className={`text-xl font-semibold ${isPositive(totals.capitalGainLoss) ? 'text-green-100' : 'text-red-100'}`}>
+                    {formatCurrency(totals.capitalGainLoss)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="p-4 bg-purple-900/30 rounded-lg border border-purple-800">
+                <h3 className="text-sm font-medium text-purple-300 mb-1">Total Dividends</h3>
+                <p className="text-xl font-semibold text-purple-100">{formatCurrency(totals.totalDividends)}</p>
+              </div>
+              <div className={`p-4 rounded-lg border ${isPositive(totals.adjustedTotalProfitLoss) ? 'bg-green-900/30 border-green-800' : 'bg-red-900/30 border-red-800'}`}>
+                <h3 className={`text-sm font-medium mb-1 ${isPositive(totals.adjustedTotalProfitLoss) ? 'text-green-300' : 'text-red-300'}`}>
+                  Adjusted Total P&L
+                </h3>
+                <div className="flex items-center justify-between">
+                  <p className={`text-xl font-semibold ${isPositive(totals.adjustedTotalProfitLoss) ? 'text-green-100' : 'text-red-100'}`}>
+                    {formatCurrency(totals.adjustedTotalProfitLoss)}
+                  </p>
+                  <div className="flex items-center">
+                    <Percent className="h-4 w-4 text-gray-400 mr-1" />
+                    <span className={`text-sm font-medium ${isPositive(totals.adjustedRoi) ? 'text-green-300' : 'text-red-300'}`}>
+                      {formatPercentage(totals.adjustedRoi)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {!showAllHoldings && investment && (
         <>
           {/* Breakeven Price Highlight - New prominent section */}
           <div className="mb-6 p-6 bg-gradient-to-r from-purple-900/40 to-indigo-900/40 rounded-xl border-2 border-purple-600/50 shadow-lg">
@@ -144,7 +336,7 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
                   <h3 className="text-sm font-medium text-blue-300">Total Shares</h3>
                   {!isEditingHoldings && onHoldingsUpdate && !isReadOnly && (
                     <button
-                      onClick={() => setIsEditingHoldings(true)}
+                      onClick={handleStartEditHoldings}
                       className="p-1 text-blue-400 hover:text-blue-300 hover:bg-blue-900/50 rounded transition-colors"
                       title="Edit holdings"
                     >
@@ -156,9 +348,9 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
                   <div className="space-y-2">
                     <input
                       type="number"
-                      step="1"
+                      step="any"
                       value={editHoldings.shares || ''}
-                      onChange={(e) => setEditHoldings({ ...editHoldings, shares: parseInt(e.target.value) || 0 })}
+                      onChange={(e) => setEditHoldings({ ...editHoldings, shares: parseFloat(e.target.value) || 0 })}
                       className="w-full px-2 py-1 text-lg font-bold bg-gray-700 border border-gray-600 rounded text-blue-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
                       placeholder="Shares"
                     />
@@ -179,7 +371,7 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
                     </div>
                   </div>
                 ) : (
-                  <p className="text-2xl font-bold text-blue-100">{investment.shares.toLocaleString()}</p>
+                  <p className="text-2xl font-bold text-blue-100">{Precision.formatShares(investment.shares)}</p>
                 )}
               </div>
               <div className="p-4 bg-yellow-900/30 rounded-lg border border-yellow-800">
@@ -276,6 +468,132 @@ export const InvestmentSummary: React.FC<InvestmentSummaryProps> = ({
           )}
         </>
       )}
+
+      {gainFigures && (
+        <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className={`p-4 rounded-lg border ${isPositive(gainFigures.realizedGainLoss) ? 'bg-green-900/30 border-green-800' : 'bg-red-900/30 border-red-800'}`}>
+            <h3 className={`text-sm font-medium mb-1 ${isPositive(gainFigures.realizedGainLoss) ? 'text-green-300' : 'text-red-300'}`}>
+              Realized Gain/Loss
+            </h3>
+            <p className={`text-xl font-semibold ${isPositive(gainFigures.realizedGainLoss) ? 'text-green-100' : 'text-red-100'}`}>
+              {formatCurrency(gainFigures.realizedGainLoss)}
+            </p>
+            <div className="mt-2 space-y-1 text-xs text-gray-300">
+              <div className="flex justify-between">
+                <span>Short-term</span>
+                <span>{formatCurrency(gainFigures.shortTermRealizedGainLoss)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Long-term</span>
+                <span>{formatCurrency(gainFigures.longTermRealizedGainLoss)}</span>
+              </div>
+              {gainFigures.excessROCGain > 0 && (
+                <div className="flex justify-between text-yellow-300">
+                  <span>ROC over basis (not in total)</span>
+                  <span>{formatCurrency(gainFigures.excessROCGain)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className={`p-4 rounded-lg border ${isPositive(gainFigures.unrealizedGainLoss) ? 'bg-green-900/30 border-green-800' : 'bg-red-900/30 border-red-800'}`}>
+            <h3 className={`text-sm font-medium mb-1 ${isPositive(gainFigures.unrealizedGainLoss) ? 'text-green-300' : 'text-red-300'}`}>
+              Unrealized Gain/Loss
+            </h3>
+            <p className={`text-xl font-semibold ${isPositive(gainFigures.unrealizedGainLoss) ? 'text-green-100' : 'text-red-100'}`}>
+              {formatCurrency(gainFigures.unrealizedGainLoss)}
+            </p>
+            <p className="text-xs text-gray-400 mt-2">Open lots at market vs adjusted cost basis</p>
+          </div>
+
+          <div className="p-4 rounded-lg border bg-gray-700/50 border-gray-600">
+            <h3 className="text-sm font-medium text-gray-300 mb-2">Realized by Tax Year</h3>
+            {yearlyRealized.length === 0 ? (
+              <p className="text-sm text-gray-400">No sells yet</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th className="text-left pb-1 font-medium">Year</th>
+                    <th className="text-right pb-1 font-medium">Short</th>
+                    <th className="text-right pb-1 font-medium">Long</th>
+                    {hasExcessROC && <th className="text-right pb-1 font-medium">ROC Excess</th>}
+                    <th className="text-right pb-1 font-medium">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {yearlyRealized.map(summary => (
+                    <tr key={summary.year} className="border-t border-gray-600 text-gray-200">
+                      <td className="py-1">{summary.year}</td>
+                      <td className="py-1 text-right">{formatCurrency(summary.shortTerm)}</td>
+                      <td className="py-1 text-right">{formatCurrency(summary.longTerm)}</td>
+                      {hasExcessROC && <td className="py-1 text-right text-yellow-300">{formatCurrency(summary.excessROC)}</td>}
+                      <td className={`py-1 text-right font-medium ${isPositive(summary.total) ? 'text-green-300' : 'text-red-300'}`}>
+                        {formatCurrency(summary.total)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+
+      {hasForecast && (
+        <div className="mt-6 p-4 bg-purple-900/30 rounded-lg border border-purple-800">
+          <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+            <div className="flex items-center">
+              <Sparkles className="h-5 w-5 text-purple-400 mr-2" />
+              <div>
+                <h3 className="text-sm font-medium text-purple-300">Forward Income</h3>
+                <p className="text-xs text-purple-300/80">
+                  At current holdings • Estimates from {ESTIMATION_MODEL_LABELS[estimationModel]}
+                </p>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-4 text-right">
+              <div>
+                <p className="text-xs text-purple-300">Distribution Rate</p>
+                <p className="text-lg font-semibold text-purple-100">{formatPercentage(forecast.distributionRate)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-purple-300">Yield on Cost</p>
+                <p className="text-lg font-semibold text-purple-100">{formatPercentage(forecast.yieldOnCost)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-purple-300">Yield on Adjusted Cost</p>
+                <p className="text-lg font-semibold text-purple-100">{formatPercentage(forecast.yieldOnAdjustedCost)}</p>
+              </div>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {forecast.windows.map(window => (
+              <div key={window.weeks} className="p-3 bg-gray-800/60 rounded-lg border border-purple-900">
+                <p className="text-xs font-medium text-purple-300">
+                  Next {window.weeks} weeks
+                  {!window.isComplete && <span className="text-yellow-300"> • partial</span>}
+                </p>
+                <p className="text-xl font-semibold text-purple-100">{formatCurrency(window.total)}</p>
+                <div className="mt-1 text-xs text-gray-300 space-y-0.5">
+                  <p>Confirmed: {formatCurrency(window.confirmed)}</p>
+                  <p>Estimated: {formatCurrency(window.estimated)}</p>
+                  {window.estimatedHigh > window.estimatedLow && (
+                    <p className="text-gray-400">
+                      Range {formatCurrency(window.confirmed + window.estimatedLow)} – {formatCurrency(window.confirmed + window.estimatedHigh)}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-gray-400">
+            Rates use {formatCurrency(forecast.annualIncome)} of annualized income.
+            {forecast.windows.some(window => !window.isComplete) &&
+              ' Partial windows run past the projection horizon; extend it in the Dividend Schedule to fill them.'}
+          </p>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,300 @@
+import React, { useState } from 'react';
+import { DividendData, LastSynced, MarketDataProviderId, SyncType } from '../types/investment';
+import { MARKET_DATA_PROVIDER_LABELS, MarketDataProviders } from '../services/marketDataProvider';
+import { PolygonService } from '../services/polygonService';
+import { ResponseCache } from '../services/requestCache';
+import { RefreshSchedule } from '../utils/refreshSchedule';
+import { TradingCalendar } from '../utils/tradingCalendar';
+import { Database, Wifi, WifiOff, Trash2, Key, CheckCircle, AlertCircle, RefreshCw, Save, Clock } from 'lucide-react';
+
+interface MarketDataSettingsProps {
+  provider: MarketDataProviderId;
+  onProviderChange: (provider: MarketDataProviderId) => void;
+  autoRefreshMinutes: number;
+  onAutoRefreshChange: (minutes: number) => void;
+  lastSynced: LastSynced;
+  isRefreshing: boolean;
+  schedules: Record<string, DividendData[]>;
+}
+
+const PROVIDER_DESCRIPTIONS: Record<MarketDataProviderId, string> = {
+  polygon: 'Live quotes, daily closes, dividends and splits from Polygon.io. Needs network access and an API key.',
+  manual: 'Serves the prices and distributions entered by hand or imported from CSV in this session. Works offline.',
+  fixture: 'Replays recorded Polygon.io responses bundled with the app. Works offline; prices are sample data.',
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const SYNC_LABELS: Record<SyncType, string> = {
+  prices: 'Prices',
+  dividends: 'Dividends',
+};
+
+export const MarketDataSettings: React.FC<MarketDataSettingsProps> = ({
+  provider,
+  onProviderChange,
+  autoRefreshMinutes,
+  onAutoRefreshChange,
+  lastSynced,
+  isRefreshing,
+  schedules,
+}) => {
+  const isOnline = provider === 'polygon';
+  const [cache, setCache] = useState(() => ResponseCache.stats());
+  const [keySource, setKeySource] = useState(() => PolygonService.getApiKeySource());
+  const [keyInput, setKeyInput] = useState('');
+  const [isTesting, setIsTesting] = useState(false);
+  const [keyStatus, setKeyStatus] = useState<{
+    type: 'success' | 'error' | null;
+    message: string;
+  }>({ type: null, message: '' });
+  // Set after a key is saved while another provider is in use
+  const [offerPolygon, setOfferPolygon] = useState(false);
+
+  const handleClearCache = () => {
+    ResponseCache.clear();
+    setCache(ResponseCache.stats());
+  };
+
+  // Tests the typed key, or the active one when the field is empty
+  const testKey = async (): Promise<boolean> => {
+    const candidate = keyInput.trim() || undefined;
+    setIsTesting(true);
+    setKeyStatus({ type: null, message: '' });
+    const valid = await PolygonService.validateApiKey(candidate);
+    setIsTesting(false);
+    setKeyStatus(valid
+      ? { type: 'success', message: candidate ? 'Key accepted by Polygon.io' : 'Active key accepted by Polygon.io' }
+      : { type: 'error', message: 'Polygon.io rejected the key, or could not be reached' });
+    return valid;
+  };
+
+  const handleSaveKey = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keyInput.trim() || !(await testKey())) return;
+
+    PolygonService.setApiKey(keyInput);
+    setKeyInput('');
+    setKeySource(PolygonService.getApiKeySource());
+    setKeyStatus({ type: 'success', message: 'Key saved in this browser' });
+    setOfferPolygon(!isOnline);
+  };
+
+  const handleUsePolygon = () => {
+    onProviderChange('polygon');
+    setOfferPolygon(false);
+  };
+
+  const handleRemoveKey = () => {
+    if (!window.confirm('Remove the Polygon.io API key saved in this browser?')) return;
+    PolygonService.clearApiKey();
+    setKeySource(PolygonService.getApiKeySource());
+    setKeyStatus({ type: null, message: '' });
+    setOfferPolygon(false);
+  };
+
+  const keyDescription = keySource === 'runtime'
+    ? `Saved in this browser (${PolygonService.getMaskedApiKey()})`
+    : keySource === 'build'
+      ? `Set at build time (${PolygonService.getMaskedApiKey()})`
+      : 'No key configured';
+
+  const marketOpen = TradingCalendar.isMarketOpen();
+  const announcementDays = Object.entries(schedules)
+    .map(([symbol, rows]) => ({ symbol, weekday: RefreshSchedule.announcementWeekday(rows) }))
+    .filter((entry): entry is { symbol: string; weekday: number } => entry.weekday !== null)
+    .map(({ symbol, weekday }) => `${WEEKDAYS[weekday]}s (${symbol})`);
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+        <div className="flex items-center">
+          <Database className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Market Data</h2>
+        </div>
+        <span className={`flex items-center text-sm ${isOnline ? 'text-green-400' : 'text-gray-400'}`}>
+          {isOnline ? <Wifi className="h-4 w-4 mr-1" /> : <WifiOff className="h-4 w-4 mr-1" />}
+          {isOnline ? 'Online' : 'Offline'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {MarketDataProviders.IDS.map(id => (
+          <label
+            key={id}
+            className={`p-4 rounded-lg border cursor-pointer transition-colors ${
+              id === provider
+                ? 'bg-blue-900/30 border-blue-600'
+                : 'bg-gray-700 border-gray-600 hover:border-gray-500'
+            }`}
+          >
+            <div className="flex items-center mb-1">
+              <input
+                type="radio"
+                name="market-data-provider"
+                value={id}
+                checked={id === provider}
+                onChange={() => onProviderChange(id)}
+                className="mr-2"
+              />
+              <span className="font-medium text-white">{MARKET_DATA_PROVIDER_LABELS[id]}</span>
+            </div>
+            <p className="text-xs text-gray-300">{PROVIDER_DESCRIPTIONS[id]}</p>
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-4 text-sm text-gray-300">
+        <span className="text-gray-400">In use:</span> {MARKET_DATA_PROVIDER_LABELS[provider]}
+        <span className="text-gray-400"> • Endpoint:</span>{' '}
+        <code className="text-blue-200">{MarketDataProviders.describeEndpoint(provider)}</code>
+      </div>
+
+      {/* Polygon.io key, kept in this browser only */}
+      <div className="mt-4 p-4 bg-gray-700 rounded-lg border border-gray-600">
+        <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+          <div className="flex items-center">
+            <Key className="h-5 w-5 text-yellow-400 mr-2" />
+            <h3 className="text-lg font-semibold text-white">Polygon.io API Key</h3>
+          </div>
+          <span className="text-sm text-gray-300">{keyDescription}</span>
+        </div>
+
+        <form onSubmit={handleSaveKey} className="flex flex-wrap gap-2">
+          <input
+            type="password"
+            autoComplete="off"
+            value={keyInput}
+            onChange={(e) => setKeyInput(e.target.value)}
+            placeholder={keySource ? 'Enter a new key to replace it' : 'Paste your API key'}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+          />
+          <button
+            type="button"
+            onClick={testKey}
+            disabled={isTesting || (!keyInput.trim() && !keySource)}
+            className="flex items-center px-3 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${isTesting ? 'animate-spin' : ''}`} />
+            Test
+          </button>
+          <button
+            type="submit"
+            disabled={isTesting || !keyInput.trim()}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4 mr-1" />
+            Save
+          </button>
+          {keySource === 'runtime' && (
+            <button
+              type="button"
+              onClick={handleRemoveKey}
+              className="flex items-center px-3 py-2 text-red-300 hover:text-red-200 hover:bg-red-900/30 rounded-md transition-colors"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Remove
+            </button>
+          )}
+        </form>
+
+        {keyStatus.type && (
+          <p className={`mt-2 flex items-center text-sm ${keyStatus.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>
+            {keyStatus.type === 'success' ? (
+              <CheckCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+            ) : (
+              <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+            )}
+            {keyStatus.message}
+          </p>
+        )}
+        {offerPolygon && !isOnline && (
+          <div className="mt-2 flex items-center flex-wrap gap-2 text-sm text-gray-300">
+            <span>{MARKET_DATA_PROVIDER_LABELS[provider]} is still in use.</span>
+            <button
+              type="button"
+              onClick={handleUsePolygon}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              <Wifi className="h-4 w-4 mr-1" />
+              Switch to {MARKET_DATA_PROVIDER_LABELS.polygon}
+            </button>
+          </div>
+        )}
+        <p className="mt-2 text-xs text-gray-400">
+          The key is stored in this browser only. It is never included in share, report or portable URLs.
+        </p>
+      </div>
+
+      {/* Background polling of quotes and declarations */}
+      <div className="mt-4 p-4 bg-gray-700 rounded-lg border border-gray-600">
+        <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+          <div className="flex items-center">
+            <Clock className="h-5 w-5 text-green-400 mr-2" />
+            <h3 className="text-lg font-semibold text-white">Automatic Refresh</h3>
+          </div>
+          <span className={`flex items-center text-sm ${marketOpen ? 'text-green-400' : 'text-gray-400'}`}>
+            {isRefreshing && <RefreshCw className="h-4 w-4 mr-1 animate-spin" />}
+            {isRefreshing ? 'Refreshing...' : marketOpen ? 'Market open' : 'Market closed'}
+          </span>
+        </div>
+
+        <div className="flex items-center flex-wrap gap-2 text-sm text-gray-300">
+          <label htmlFor="auto-refresh-minutes">Poll prices during market hours</label>
+          <select
+            id="auto-refresh-minutes"
+            value={autoRefreshMinutes}
+            onChange={(e) => onAutoRefreshChange(Number(e.target.value))}
+            className="px-3 py-1 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+          >
+            {RefreshSchedule.INTERVAL_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes === 0 ? 'Off' : `Every ${minutes} min`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+          {(Object.keys(SYNC_LABELS) as SyncType[]).map(type => (
+            <div key={type}>
+              <span className="text-gray-400">{SYNC_LABELS[type]} last synced:</span>{' '}
+              <span className="text-white">
+                {lastSynced[type] ? ResponseCache.formatAge(Date.parse(lastSynced[type] as string)) : 'Never'}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <p className="mt-2 text-xs text-gray-400">
+          {announcementDays.length > 0
+            ? `New declarations are checked hourly on ${announcementDays.join(', ')} until the next distribution is confirmed, even with price polling off.`
+            : 'New declarations are checked once a confirmed distribution shows the usual announcement day, even with price polling off.'}
+          {' '}
+          {isOnline
+            ? 'Paused while this tab is hidden.'
+            : 'Runs with Polygon.io only; other sources update when refreshed by hand.'}
+        </p>
+      </div>
+
+      {isOnline && (
+        <div className="mt-4 flex items-center justify-between flex-wrap gap-2 text-sm text-gray-400">
+          <span>
+            {cache.entries > 0 && cache.oldest
+              ? `${cache.entries} cached response${cache.entries === 1 ? '' : 's'}, oldest fetched ${ResponseCache.formatAge(cache.oldest)}. Requests are limited to 5 per minute.`
+              : 'No cached responses. Requests are limited to 5 per minute.'}
+          </span>
+          {cache.entries > 0 && (
+            <button
+              onClick={handleClearCache}
+              className="flex items-center px-3 py-1 text-red-300 hover:text-red-200 hover:bg-red-900/30 rounded transition-colors"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear Cache
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { PortfolioTimelineData, TimelinePoint } from '../utils/portfolioTimeline';
+import { Precision } from '../utils/precision';
+import { TrendingUp } from 'lucide-react';
+
+interface PortfolioChartProps {
+  timeline: PortfolioTimelineData;
+}
+
+type SeriesKey = Exclude<keyof TimelinePoint, 'date'>;
+
+const SERIES: { key: SeriesKey; label: string; color: string; dashed?: boolean }[] = [
+  { key: 'marketValue', label: 'Market Value', color: '#4ade80' },
+  { key: 'costBasis', label: 'Original Cost Basis', color: '#d8b4fe', dashed: true },
+  { key: 'adjustedCostBasis', label: 'Adjusted Cost Basis', color: '#a855f7' },
+  { key: 'cumulativeDistributions', label: 'Cumulative Distributions', color: '#facc15' },
+  { key: 'totalReturn', label: 'Total Return', color: '#60a5fa' },
+];
+
+// SVG layout in viewBox units; the chart scales to its container width
+const WIDTH = 800;
+const HEIGHT = 320;
+const PADDING = { top: 16, right: 16, bottom: 48, left: 72 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const toTime = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+export const PortfolioChart: React.FC<PortfolioChartProps> = ({ timeline }) => {
+  const [hiddenSeries, setHiddenSeries] = useState<SeriesKey[]>([]);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const { points, markers } = timeline;
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(amount);
+
+  const formatAxisCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(amount);
+
+  const formatDate = (dateString: string, style: 'short' | 'axis' = 'short') => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return style === 'axis'
+      ? date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+      : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  };
+
+  if (points.length < 2) {
+    return (
+      <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+        <div className="flex items-center mb-2">
+          <TrendingUp className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Portfolio Value Over Time</h2>
+        </div>
+        <p className="text-gray-400">The chart appears once the portfolio has more than one day of history.</p>
+      </div>
+    );
+  }
+
+  const visibleSeries = SERIES.filter(series => !hiddenSeries.includes(series.key));
+
+  // Scales
+  const startTime = toTime(points[0].date);
+  const endTime = toTime(points[points.length - 1].date);
+  const xFor = (date: string) =>
+    PADDING.left + ((toTime(date) - startTime) / Math.max(endTime - startTime, 1)) * PLOT_WIDTH;
+
+  const values = points.flatMap(point => visibleSeries.map(series => point[series.key]));
+  const minValue = Math.min(0, ...values);
+  const maxValue = Math.max(1, ...values) * 1.05;
+  const yFor = (value: number) =>
+    PADDING.top + (1 - (value - minValue) / (maxValue - minValue)) * PLOT_HEIGHT;
+
+  const yTicks = Array.from({ length: 5 }, (_, i) => minValue + ((maxValue - minValue) * i) / 4);
+  const xTicks = Array.from({ length: 6 }, (_, i) =>
+    new Date(startTime + ((endTime - startTime) * i) / 5).toISOString().split('T')[0]
+  );
+
+  const pathFor = (key: SeriesKey) =>
+    points
+      .map((point, index) => `${index === 0 ? 'M' : 'L'}${xFor(point.date).toFixed(1)},${yFor(point[key]).toFixed(1)}`)
+      .join(' ');
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+
+    // Nearest sample by x position
+    let nearest = 0;
+    points.forEach((point, index) => {
+      if (Math.abs(xFor(point.date) - x) < Math.abs(xFor(points[nearest].date) - x)) nearest = index;
+    });
+    setHoverIndex(nearest);
+  };
+
+  const toggleSeries = (key: SeriesKey) => {
+    setHiddenSeries(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const activePoint = points[hoverIndex ?? points.length - 1];
+  const markerY = PADDING.top + PLOT_HEIGHT;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
+        <div className="flex items-center">
+          <TrendingUp className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Portfolio Value Over Time</h2>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {SERIES.map(series => {
+            const isHidden = hiddenSeries.includes(series.key);
+            return (
+              <button
+                key={series.key}
+                onClick={() => toggleSeries(series.key)}
+                className={`flex items-center px-2 py-1 rounded text-xs border transition-colors ${
+                  isHidden ? 'border-gray-700 text-gray-500' : 'border-gray-600 text-gray-200 bg-gray-700'
+                }`}
+              >
+                <span className="inline-block w-3 h-0.5 mr-1.5" style={{ backgroundColor: series.color }} />
+                {series.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      >
+        {/* Grid and axes */}
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yFor(tick)} y2={yFor(tick)} stroke="#374151" strokeWidth={1} />
+            <text x={PADDING.left - 8} y={yFor(tick) + 4} textAnchor="end" fontSize={11} fill="#9ca3af">
+              {formatAxisCurrency(tick)}
+            </text>
+          </g>
+        ))}
+        {minValue < 0 && (
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={yFor(0)} y2={yFor(0)} stroke="#6b7280" strokeWidth={1} />
+        )}
+        {xTicks.map(tick => (
+          <text key={tick} x={xFor(tick)} y={HEIGHT - PADDING.bottom + 34} textAnchor="middle" fontSize={11} fill="#9ca3af">
+            {formatDate(tick, 'axis')}
+          </text>
+        ))}
+
+        {/* Series */}
+        {visibleSeries.map(series => (
+          <path
+            key={series.key}
+            d={pathFor(series.key)}
+            fill="none"
+            stroke={series.color}
+            strokeWidth={2}
+            strokeDasharray={series.dashed ? '6 4' : undefined}
+          />
+        ))}
+
+        {/* Buy and sell markers along the time axis */}
+        {markers.map((marker, index) => {
+          const x = xFor(marker.date);
+          const isBuy = marker.type === 'buy';
+          return (
+            <path
+              key={`${marker.date}-${index}`}
+              d={isBuy
+                ? `M${x},${markerY + 6} l-5,9 h10 z`
+                : `M${x},${markerY + 15} l-5,-9 h10 z`}
+              fill={isBuy ? '#4ade80' : '#f87171'}
+            >
+              <title>
+                {`${formatDate(marker.date)}: ${isBuy ? 'Buy' : 'Sell'} ${Precision.formatShares(marker.quantity)} ${marker.symbol} (${formatCurrency(marker.amount)})`}
+              </title>
+            </path>
+          );
+        })}
+
+        {/* Hover guide */}
+        {hoverIndex !== null && (
+          <g>
+            <line
+              x1={xFor(activePoint.date)}
+              x2={xFor(activePoint.date)}
+              y1={PADDING.top}
+              y2={markerY}
+              stroke="#9ca3af"
+              strokeDasharray="3 3"
+            />
+            {visibleSeries.map(series => (
+              <circle
+                key={series.key}
+                cx={xFor(activePoint.date)}
+                cy={yFor(activePoint[series.key])}
+                r={3.5}
+                fill={series.color}
+              />
+            ))}
+          </g>
+        )}
+      </svg>
+
+      {/* Values at the hovered date, or the latest date */}
+      <div className="mt-3 grid grid-cols-2 md:grid-cols-6 gap-3 text-sm">
+        <div>
+          <p className="text-xs text-gray-400">Date</p>
+          <p className="font-medium text-gray-200">{formatDate(activePoint.date)}</p>
+        </div>
+        {SERIES.map(series => (
+          <div key={series.key}>
+            <p className="text-xs" style={{ color: series.color }}>{series.label}</p>
+            <p className="font-medium text-gray-200">{formatCurrency(activePoint[series.key])}</p>
+          </div>
+        ))}
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        ▲ buy ▼ sell. Past values use stored daily closes where available, otherwise the last trade price.
+      </p>
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,320 @@
+import React, { useState } from 'react';
+import Papa from 'papaparse';
+import { PriceHistory, PricePoint } from '../types/investment';
+import { MARKET_DATA_PROVIDER_LABELS, MarketDataProvider } from '../services/marketDataProvider';
+import { ResponseCache } from '../services/requestCache';
+import { PriceHistoryManager } from '../utils/priceHistory';
+import { LineChart, RefreshCw, Upload, Plus, Trash2, CheckCircle, AlertCircle, X } from 'lucide-react';
+
+interface PriceHistoryPanelProps {
+  symbols: string[];
+  priceHistory: PriceHistory;
+  startDates: Record<string, string>; // first transaction date per symbol
+  onAddPrices?: (symbol: string, points: PricePoint[]) => void;
+  onRemovePrice?: (symbol: string, date: string) => void;
+  marketData: MarketDataProvider;
+  isReadOnly?: boolean;
+}
+
+// Rows shown in the table; older closes stay stored but are collapsed
+const VISIBLE_ROWS = 10;
+
+export const PriceHistoryPanel: React.FC<PriceHistoryPanelProps> = ({
+  symbols,
+  priceHistory,
+  startDates,
+  onAddPrices,
+  onRemovePrice,
+  marketData,
+  isReadOnly = false,
+}) => {
+  const [selectedSymbol, setSelectedSymbol] = useState<string>(symbols[0] || '');
+  const [isFetching, setIsFetching] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [showCsvInput, setShowCsvInput] = useState(false);
+  const [manualEntry, setManualEntry] = useState({
+    date: new Date().toISOString().split('T')[0],
+    close: 0,
+  });
+  const [status, setStatus] = useState<{
+    type: 'success' | 'error' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const activeSymbol = symbols.includes(selectedSymbol) ? selectedSymbol : symbols[0] || '';
+  const points = priceHistory[activeSymbol] || [];
+  const range = PriceHistoryManager.range(points);
+  const canEdit = !isReadOnly && !!onAddPrices;
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 4,
+    }).format(amount);
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const handleFetch = async () => {
+    if (!canEdit || !activeSymbol) return;
+
+    setIsFetching(true);
+    setStatus({ type: null, message: '' });
+
+    // Only fetch what is missing: from the day after the last stored close,
+    // or from the first transaction when nothing is stored yet
+    const today = new Date().toISOString().split('T')[0];
+    const lastDate = range?.to;
+    const from = lastDate
+      ? new Date(new Date(lastDate).getTime() + 86400000).toISOString().split('T')[0]
+      : startDates[activeSymbol] || today;
+
+    if (from > today) {
+      setStatus({ type: 'success', message: `${activeSymbol} history is already up to date` });
+      setIsFetching(false);
+      return;
+    }
+
+    const result = await marketData.getDailyHistory(activeSymbol, from, today);
+    if (result.success && result.data) {
+      onAddPrices!(activeSymbol, result.data.map(bar => ({ date: bar.date, close: bar.close })));
+      const cacheNote = result.fromCache && result.fetchedAt
+        ? ` (from cache, fetched ${ResponseCache.formatAge(result.fetchedAt)})`
+        : '';
+      setStatus({ type: 'success', message: `Added ${result.data.length} daily closes for ${activeSymbol}${cacheNote}` });
+    } else {
+      setStatus({ type: 'error', message: result.error || 'Failed to fetch price history' });
+    }
+    setIsFetching(false);
+  };
+
+  const handleCsvImport = () => {
+    if (!canEdit || !csvText.trim()) return;
+
+    const results = Papa.parse<Record<string, string>>(csvText.trim(), {
+      header: true,
+      skipEmptyLines: true,
+    });
+    const imported: PricePoint[] = [];
+    const errors: string[] = [];
+
+    results.data.forEach((row, index) => {
+      const rowNumber = index + 2; // header is row 1
+      const date = (row.date || '').trim();
+      const close = parseFloat(row.close);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        errors.push(`Row ${rowNumber}: Invalid date (use YYYY-MM-DD)`);
+      } else if (isNaN(close) || close <= 0) {
+        errors.push(`Row ${rowNumber}: Close must be a positive number`);
+      } else {
+        imported.push({ date, close });
+      }
+    });
+
+    if (errors.length > 0) {
+      setStatus({
+        type: 'error',
+        message: `Import failed:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n... and ${errors.length - 5} more errors` : ''}`,
+      });
+    } else if (imported.length === 0) {
+      setStatus({ type: 'error', message: 'No prices found. Expected columns: date,close' });
+    } else {
+      onAddPrices!(activeSymbol, imported);
+      setStatus({ type: 'success', message: `Imported ${imported.length} closes for ${activeSymbol}` });
+      setCsvText('');
+      setShowCsvInput(false);
+    }
+  };
+
+  const handleManualAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canEdit || manualEntry.close <= 0) return;
+
+    onAddPrices!(activeSymbol, [{ date: manualEntry.date, close: manualEntry.close }]);
+    setManualEntry({ ...manualEntry, close: 0 });
+  };
+
+  // Newest first for display
+  const displayPoints = [...points].reverse();
+  const visiblePoints = showAll ? displayPoints : displayPoints.slice(0, VISIBLE_ROWS);
+
+  if (symbols.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+        <div className="flex items-center">
+          <LineChart className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Price History</h2>
+          {range && (
+            <span className="ml-3 text-sm text-gray-400">
+              {points.length} closes • {formatDate(range.from)} – {formatDate(range.to)}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {symbols.length > 1 && (
+            <select
+              value={activeSymbol}
+              onChange={(e) => setSelectedSymbol(e.target.value)}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {symbols.map(symbol => (
+                <option key={symbol} value={symbol}>{symbol}</option>
+              ))}
+            </select>
+          )}
+          {canEdit && (
+            <>
+              <button
+                onClick={handleFetch}
+                disabled={isFetching}
+                className="flex items-center px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                title={`Fetch daily closes from ${MARKET_DATA_PROVIDER_LABELS[marketData.id]}`}
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${isFetching ? 'animate-spin' : ''}`} />
+                {isFetching ? 'Fetching...' : 'Fetch Daily Closes'}
+              </button>
+              <button
+                onClick={() => setShowCsvInput(!showCsvInput)}
+                className="flex items-center px-3 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm"
+              >
+                <Upload className="h-4 w-4 mr-1" />
+                Paste CSV
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {status.type && (
+        <div className={`mb-4 p-3 rounded-lg border flex items-start ${
+          status.type === 'success'
+            ? 'bg-green-900/30 border-green-800 text-green-200'
+            : 'bg-red-900/30 border-red-800 text-red-200'
+        }`}>
+          {status.type === 'success' ? (
+            <CheckCircle className="h-5 w-5 text-green-400 mr-2 flex-shrink-0" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+          )}
+          <pre className="flex-1 text-sm whitespace-pre-wrap">{status.message}</pre>
+          <button onClick={() => setStatus({ type: null, message: '' })} className="ml-2 text-gray-400 hover:text-gray-200">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {canEdit && showCsvInput && (
+        <div className="mb-4 p-4 bg-indigo-900/20 border border-indigo-800 rounded-lg space-y-3">
+          <label className="block text-sm font-medium text-indigo-300">
+            Daily closes for {activeSymbol} (columns: date,close)
+          </label>
+          <textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder="date,close&#10;2025-06-02,5.81&#10;2025-06-03,5.84"
+            className="w-full h-28 px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            onClick={handleCsvImport}
+            disabled={!csvText.trim()}
+            className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import Prices
+          </button>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleManualAdd} className="mb-4 flex items-end gap-3 flex-wrap">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Date</label>
+            <input
+              type="date"
+              value={manualEntry.date}
+              onChange={(e) => setManualEntry({ ...manualEntry, date: e.target.value })}
+              className="px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-700 text-white"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-1">Close</label>
+            <input
+              type="number"
+              step="0.0001"
+              value={manualEntry.close || ''}
+              onChange={(e) => setManualEntry({ ...manualEntry, close: parseFloat(e.target.value) || 0 })}
+              className="w-28 px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-700 text-white"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Close
+          </button>
+        </form>
+      )}
+
+      {points.length === 0 ? (
+        <p className="text-center text-gray-400 py-4">
+          No stored prices for {activeSymbol}. Valuations use the current price.
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-600">
+                  <th className="text-left py-2 px-4 font-medium text-gray-300">Date</th>
+                  <th className="text-right py-2 px-4 font-medium text-gray-300">Close</th>
+                  {canEdit && onRemovePrice && <th className="py-2 px-4" />}
+                </tr>
+              </thead>
+              <tbody>
+                {visiblePoints.map(point => (
+                  <tr key={point.date} className="border-b border-gray-700 hover:bg-gray-700/50 transition-colors">
+                    <td className="py-2 px-4 text-gray-200">{formatDate(point.date)}</td>
+                    <td className="py-2 px-4 text-right text-gray-200">{formatCurrency(point.close)}</td>
+                    {canEdit && onRemovePrice && (
+                      <td className="py-2 px-4 text-center">
+                        <button
+                          onClick={() => onRemovePrice(activeSymbol, point.date)}
+                          className="p-1 text-red-400 hover:text-red-300 hover:bg-red-900/30 rounded transition-colors"
+                          title="Remove close"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {displayPoints.length > VISIBLE_ROWS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="mt-3 text-sm text-blue-400 hover:text-blue-300"
+            >
+              {showAll ? 'Show recent only' : `Show all ${displayPoints.length} closes`}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -1,23 +1,29 @@
 import React, { useState } from 'react';
 import { RefreshCw, TrendingUp, TrendingDown, Wifi, WifiOff, AlertCircle, Edit2, Save, X } from 'lucide-react';
-import { PolygonService, PolygonStockData } from '../services/polygonService';
+import { MARKET_DATA_PROVIDER_LABELS, MarketDataProvider } from '../services/marketDataProvider';
+import { ResponseCache } from '../services/requestCache';
 
 interface PriceUpdaterProps {
   currentPrice: number;
   onPriceUpdate?: (price: number) => void;
   isReadOnly?: boolean;
   symbol?: string;
+  marketData: MarketDataProvider;
+  onSynced?: () => void; // a price was fetched from the provider
 }
 
 export const PriceUpdater: React.FC<PriceUpdaterProps> = ({
   currentPrice,
   onPriceUpdate,
   isReadOnly = false,
-  symbol = 'ULTY'
+  symbol = 'ULTY',
+  marketData,
+  onSynced,
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [cachedAt, setCachedAt] = useState<number | null>(null); // set when the price came from cache
   const [isEditing, setIsEditing] = useState(false);
   const [editPrice, setEditPrice] = useState(currentPrice);
 
@@ -35,11 +41,13 @@ export const PriceUpdater: React.FC<PriceUpdaterProps> = ({
     setError(null);
 
     try {
-      const result = await PolygonService.getRealTimeQuote(symbol);
+      const result = await marketData.getQuote(symbol);
       
       if (result.success && result.data) {
         onPriceUpdate(result.data.price);
+        onSynced?.();
         setLastUpdated(new Date());
+        setCachedAt(result.fromCache && result.fetchedAt ? result.fetchedAt : null);
         setError(null);
       } else {
         setError(result.error || 'Failed to fetch price');
@@ -57,6 +65,7 @@ export const PriceUpdater: React.FC<PriceUpdaterProps> = ({
     if (editPrice > 0) {
       onPriceUpdate(editPrice);
       setLastUpdated(new Date());
+      setCachedAt(null);
       setIsEditing(false);
       setError(null);
     }
@@ -123,7 +132,7 @@ export const PriceUpdater: React.FC<PriceUpdaterProps> = ({
                   onClick={handleRefresh}
                   disabled={isLoading}
                   className="p-1 text-green-400 hover:text-green-300 hover:bg-green-900/30 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                  title="Refresh from Polygon API"
+                  title={`Refresh from ${MARKET_DATA_PROVIDER_LABELS[marketData.id]}`}
                 >
                   <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
                 </button>
@@ -134,12 +143,17 @@ export const PriceUpdater: React.FC<PriceUpdaterProps> = ({
       </div>
       
       <div className="text-xs text-gray-400">
-        Current ULTY Price
+        Current {symbol} Price
         {lastUpdated && (
           <span className="block text-green-400">
             Updated: {formatLastUpdated()}
           </span>
         )}
+        {lastUpdated && cachedAt && (
+          <span className="block text-yellow-400">
+            From cache, fetched {ResponseCache.formatAge(cachedAt)}
+          </span>
+        )}
       </div>
       
       {error && (
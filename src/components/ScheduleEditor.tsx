@@ -0,0 +1,437 @@
+import React, { useState } from 'react';
+import { DividendData, ScheduleRevision } from '../types/investment';
+import { Section19aParser, Section19aRow } from '../utils/section19a';
+import { CalendarClock, ChevronDown, ChevronUp, Edit2, Trash2, Plus, Save, X, History, RotateCcw, FileText, Upload } from 'lucide-react';
+
+interface ScheduleEditorProps {
+  symbols: string[];
+  schedules: Record<string, DividendData[]>;
+  revisions: ScheduleRevision[];
+  onSaveEntry: (symbol: string, entry: DividendData, originalExDate?: string) => void;
+  onDeleteEntry: (symbol: string, exDate: string) => void;
+  onRollback: (symbol: string, revisionId: string | null) => void;
+  onImport19a?: (symbol: string, notices: Section19aRow[]) => { matched: number; unmatched: string[] };
+}
+
+const emptyForm = () => ({
+  exDate: new Date().toISOString().split('T')[0],
+  payDate: new Date().toISOString().split('T')[0],
+  amount: 0,
+  rocPercentage: 100,
+});
+
+export const ScheduleEditor: React.FC<ScheduleEditorProps> = ({
+  symbols,
+  schedules,
+  revisions,
+  onSaveEntry,
+  onDeleteEntry,
+  onRollback,
+  onImport19a,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [selectedSymbol, setSelectedSymbol] = useState<string>(symbols[0] || '');
+  const [formData, setFormData] = useState(emptyForm);
+  const [editingExDate, setEditingExDate] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [show19aImport, setShow19aImport] = useState(false);
+  const [noticeText, setNoticeText] = useState('');
+  const [importStatus, setImportStatus] = useState<{
+    type: 'success' | 'error' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const activeSymbol = symbols.includes(selectedSymbol) ? selectedSymbol : symbols[0] || '';
+  const rows = schedules[activeSymbol] || [];
+  const hasSources = rows.some(row => row.sources);
+  const symbolRevisions = revisions.filter(revision => revision.symbol === activeSymbol).reverse();
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 4,
+    }).format(amount);
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const formatTimestamp = (timestamp: string) =>
+    new Date(timestamp).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingExDate(null);
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.payDate < formData.exDate) {
+      setError('Pay date cannot be before the ex-date');
+      return;
+    }
+    if (formData.amount <= 0) {
+      setError('Amount must be greater than zero');
+      return;
+    }
+    if (formData.rocPercentage < 0 || formData.rocPercentage > 100) {
+      setError('ROC % must be between 0 and 100');
+      return;
+    }
+    if (formData.exDate !== editingExDate && rows.some(row => row.exDate === formData.exDate)) {
+      setError(`A distribution with ex-date ${formatDate(formData.exDate)} already exists`);
+      return;
+    }
+
+    // Imported 19a sources no longer apply once ROC% is changed by hand
+    const original = rows.find(row => row.exDate === editingExDate);
+    const { sources, ...rest } = original || {};
+    const keepSources = sources && sources.returnOfCapital === formData.rocPercentage;
+    onSaveEntry(activeSymbol, { ...rest, ...formData, ...(keepSources ? { sources } : {}) }, editingExDate ?? undefined);
+    resetForm();
+  };
+
+  const handleEdit = (row: DividendData) => {
+    setFormData({
+      exDate: row.exDate,
+      payDate: row.payDate,
+      amount: row.amount,
+      rocPercentage: row.rocPercentage,
+    });
+    setEditingExDate(row.exDate);
+    setError(null);
+  };
+
+  const handleDelete = (row: DividendData) => {
+    if (window.confirm(`Delete the ${formatDate(row.exDate)} distribution of ${formatCurrency(row.amount)}?`)) {
+      onDeleteEntry(activeSymbol, row.exDate);
+      if (editingExDate === row.exDate) resetForm();
+    }
+  };
+
+  const handle19aImport = () => {
+    if (!onImport19a || !noticeText.trim()) return;
+
+    const { rows: notices, errors } = Section19aParser.parse(noticeText);
+    if (errors.length > 0) {
+      setImportStatus({
+        type: 'error',
+        message: `Import failed:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n... and ${errors.length - 5} more errors` : ''}`,
+      });
+      return;
+    }
+    if (notices.length === 0) {
+      setImportStatus({ type: 'error', message: 'No rows found in the notice data' });
+      return;
+    }
+
+    const { matched, unmatched } = onImport19a(activeSymbol, notices);
+    const skipped = unmatched.length > 0
+      ? `\nNo ${activeSymbol} distribution on: ${unmatched.map(formatDate).join(', ')}`
+      : '';
+    setImportStatus({
+      type: matched > 0 ? 'success' : 'error',
+      message: `Updated ROC % for ${matched} of ${notices.length} distributions${skipped}`,
+    });
+    if (matched > 0) setNoticeText('');
+  };
+
+  const handleRollback = (revisionId: string | null, label: string) => {
+    if (window.confirm(`Restore the ${activeSymbol} schedule to ${label}? This is recorded in the history and can be undone.`)) {
+      onRollback(activeSymbol, revisionId);
+      resetForm();
+    }
+  };
+
+  if (symbols.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div className="flex items-center">
+          <CalendarClock className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Distribution Schedule Editor</h2>
+          <span className="ml-3 text-sm text-gray-400">
+            {rows.length} confirmed distribution{rows.length === 1 ? '' : 's'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {symbols.length > 1 && (
+            <select
+              value={activeSymbol}
+              onChange={(e) => {
+                setSelectedSymbol(e.target.value);
+                resetForm();
+              }}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {symbols.map(symbol => (
+                <option key={symbol} value={symbol}>{symbol}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="flex items-center px-3 py-2 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+          >
+            {isExpanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {isExpanded ? 'Hide' : 'Edit Schedule'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-6 space-y-6">
+          <form onSubmit={handleSubmit} className="p-4 bg-gray-700 rounded-lg border border-gray-600">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Ex-Date</label>
+                <input
+                  type="date"
+                  value={formData.exDate}
+                  onChange={(e) => setFormData({ ...formData, exDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Pay Date</label>
+                <input
+                  type="date"
+                  value={formData.payDate}
+                  onChange={(e) => setFormData({ ...formData, payDate: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Amount / Share ($)</label>
+                <input
+                  type="number"
+                  step="0.0001"
+                  value={formData.amount || ''}
+                  onChange={(e) => setFormData({ ...formData, amount: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+                  placeholder="0.0950"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-1">ROC %</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={formData.rocPercentage}
+                  onChange={(e) => setFormData({ ...formData, rocPercentage: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+                  required
+                />
+              </div>
+            </div>
+            {error && <p className="mt-3 text-sm text-red-300">{error}</p>}
+            <div className="mt-4 flex space-x-2">
+              <button
+                type="submit"
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                {editingExDate ? <Save className="h-4 w-4 mr-1" /> : <Plus className="h-4 w-4 mr-1" />}
+                {editingExDate ? 'Save Changes' : 'Add Distribution'}
+              </button>
+              {editingExDate && (
+                <button
+                  type="button"
+                  onClick={resetForm}
+                  className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-500 transition-colors"
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+
+          {onImport19a && (
+            <div>
+              <button
+                onClick={() => setShow19aImport(!show19aImport)}
+                className="flex items-center text-sm text-indigo-300 hover:text-indigo-200"
+              >
+                <FileText className="h-4 w-4 mr-1" />
+                Import Section 19a Notice
+                {show19aImport ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+              </button>
+              {show19aImport && (
+                <div className="mt-3 p-4 bg-indigo-900/20 border border-indigo-800 rounded-lg space-y-3">
+                  <p className="text-sm text-indigo-200">
+                    Paste the source-of-distribution table for {activeSymbol} as CSV or copied from the notice.
+                    Each row needs the distribution's pay date or ex-date and the percentage from net investment
+                    income, short-term gains, long-term gains and return of capital. An optional qualified
+                    column gives the part of net investment income that is qualified dividends.
+                  </p>
+                  <textarea
+                    value={noticeText}
+                    onChange={(e) => setNoticeText(e.target.value)}
+                    placeholder="date,nii,st,lt,roc&#10;2025-06-27,8.5,0,0,91.5&#10;2025-06-23,0,0,0,100"
+                    className="w-full h-28 px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  {importStatus.type && (
+                    <pre className={`text-sm whitespace-pre-wrap ${importStatus.type === 'success' ? 'text-green-300' : 'text-red-300'}`}>
+                      {importStatus.message}
+                    </pre>
+                  )}
+                  <button
+                    onClick={handle19aImport}
+                    disabled={!noticeText.trim()}
+                    className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    Apply 19a Data
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <p className="text-center text-gray-400 py-4">
+              No confirmed distributions for {activeSymbol}. Add one above or fetch the latest data.
+            </p>
+          ) : (
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-600">
+                    <th className="text-left py-2 px-4 font-medium text-gray-300">Ex-Date</th>
+                    <th className="text-left py-2 px-4 font-medium text-gray-300">Pay Date</th>
+                    <th className="text-right py-2 px-4 font-medium text-gray-300">Amount</th>
+                    <th className="text-right py-2 px-4 font-medium text-gray-300">ROC %</th>
+                    {hasSources && (
+                      <th className="text-left py-2 px-4 font-medium text-gray-300" title="Section 19a estimate of where each distribution came from">
+                        19a Sources
+                      </th>
+                    )}
+                    <th className="text-center py-2 px-4 font-medium text-gray-300">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...rows].reverse().map(row => (
+                    <tr
+                      key={row.exDate}
+                      className={`border-b border-gray-700 hover:bg-gray-700/50 transition-colors ${
+                        editingExDate === row.exDate ? 'bg-blue-900/20' : ''
+                      }`}
+                    >
+                      <td className="py-2 px-4 text-gray-200">{formatDate(row.exDate)}</td>
+                      <td className="py-2 px-4 text-gray-200">{formatDate(row.payDate)}</td>
+                      <td className="py-2 px-4 text-right text-green-300">{formatCurrency(row.amount)}</td>
+                      <td className="py-2 px-4 text-right text-purple-300">{row.rocPercentage}%</td>
+                      {hasSources && (
+                        <td className="py-2 px-4 text-xs text-gray-400">
+                          {row.sources
+                            ? `NII ${row.sources.netInvestmentIncome}%${row.sources.qualifiedDividends ? ` (QD ${row.sources.qualifiedDividends}%)` : ''} · ST ${row.sources.shortTermGains}% · LT ${row.sources.longTermGains}% · ROC ${row.sources.returnOfCapital}%`
+                            : '—'}
+                        </td>
+                      )}
+                      <td className="py-2 px-4">
+                        <div className="flex justify-center space-x-1">
+                          <button
+                            onClick={() => handleEdit(row)}
+                            className="p-1 text-blue-400 hover:text-blue-300 hover:bg-blue-900/30 rounded transition-colors"
+                            title="Edit distribution"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(row)}
+                            className="p-1 text-red-400 hover:text-red-300 hover:bg-red-900/30 rounded transition-colors"
+                            title="Delete distribution"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Version history, newest first */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center text-lg font-medium text-white hover:text-gray-300"
+              >
+                <History className="h-5 w-5 text-blue-400 mr-2" />
+                Version History ({symbolRevisions.length})
+                {showHistory ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+              </button>
+              <button
+                onClick={() => handleRollback(null, 'the built-in schedule')}
+                className="flex items-center px-3 py-1 bg-gray-700 text-gray-200 rounded hover:bg-gray-600 transition-colors text-sm"
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Reset to Built-in
+              </button>
+            </div>
+
+            {showHistory && (
+              symbolRevisions.length === 0 ? (
+                <p className="text-sm text-gray-400">No changes yet. The schedule matches the built-in data.</p>
+              ) : (
+                <ul className="space-y-2 max-h-72 overflow-y-auto">
+                  {symbolRevisions.map((revision, index) => (
+                    <li
+                      key={revision.id}
+                      className="flex items-center justify-between p-3 bg-gray-700 rounded-lg border border-gray-600"
+                    >
+                      <div className="text-sm">
+                        <div className="flex items-center space-x-2">
+                          <span className="text-gray-400">{formatTimestamp(revision.timestamp)}</span>
+                          <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-600 text-gray-200 capitalize">
+                            {revision.change}
+                          </span>
+                          {index === 0 && <span className="text-xs text-green-300">Current</span>}
+                        </div>
+                        <p className="mt-1 text-gray-200">{revision.summary}</p>
+                      </div>
+                      {index > 0 && (
+                        <button
+                          onClick={() => handleRollback(revision.id, `the version from ${formatTimestamp(revision.timestamp)}`)}
+                          className="flex items-center px-3 py-1 text-sm text-blue-300 hover:text-blue-200 hover:bg-blue-900/30 rounded transition-colors"
+                          title="Restore the schedule as it was after this change"
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
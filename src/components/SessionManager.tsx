@@ -3,6 +3,7 @@ import { Share2, Plus, Copy, Check, ExternalLink, Eye, EyeOff, Link, HardDrive,
 import { StorageStatus } from './StorageStatus';
 import { StorageManager } from '../utils/storageManager';
 import { DataCompression } from '../utils/dataCompression';
+import { Investment, Transaction, Dividend } from '../types/investment';
 
 interface SessionManagerProps {
   sessionId: string;
@@ -12,10 +13,10 @@ interface SessionManagerProps {
   getShareableURL: () => string;
   getReadOnlyShareableURL: () => string;
   getPortableURL?: () => string;
-  investment: any;
-  transactions: any[];
-  dividends: any[];
-  currentPrice: number;
+  investments: Investment[];
+  transactions: Transaction[];
+  dividends: Dividend[];
+  currentPrices: Record<string, number>;
 }
 
 export const SessionManager: React.FC<SessionManagerProps> = ({
@@ -26,10 +27,10 @@ export const SessionManager: React.FC<SessionManagerProps> = ({
   getShareableURL,
   getReadOnlyShareableURL,
   getPortableURL,
-  investment,
+  investments,
   transactions,
   dividends,
-  currentPrice,
+  currentPrices,
 }) => {
   const [showShareModal, setShowShareModal] = useState(false);
   const [showStorageStatus, setShowStorageStatus] = useState(false);
@@ -37,7 +38,7 @@ export const SessionManager: React.FC<SessionManagerProps> = ({
   const [copiedReadOnly, setCopiedReadOnly] = useState(false);
   const [copiedPortable, setCopiedPortable] = useState(false);
 
-  const portfolioData = { investment, transactions, dividends, currentPrice };
+  const portfolioData = { investments, transactions, dividends, currentPrices };
   const storageHealth = StorageManager.getStorageHealth();
   const urlTooLong = DataCompression.wouldURLBeTooLong(portfolioData);
   const estimatedURLLength = DataCompression.getEstimatedURLLength(portfolioData);
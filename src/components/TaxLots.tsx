@@ -0,0 +1,125 @@
+import React from 'react';
+import { LotMethod, TaxLot } from '../types/investment';
+import { LOT_METHOD_LABELS } from '../utils/taxLots';
+import { Precision } from '../utils/precision';
+import { Layers } from 'lucide-react';
+
+interface TaxLotsProps {
+  lots: TaxLot[];
+  lotMethod: LotMethod;
+  onLotMethodChange?: (method: LotMethod) => void;
+  currentPrices: Record<string, number>;
+  isReadOnly?: boolean;
+}
+
+export const TaxLots: React.FC<TaxLotsProps> = ({
+  lots,
+  lotMethod,
+  onLotMethodChange,
+  currentPrices,
+  isReadOnly = false,
+}) => {
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(amount);
+
+  const formatDate = (dateString: string) => {
+    const [year, month, day] = dateString.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const hasExcessROC = lots.some(lot => lot.excessROC > 0);
+
+  // Oldest lots first, grouped by ticker
+  const sortedLots = [...lots].sort((a, b) =>
+    a.symbol.localeCompare(b.symbol) || a.acquiredDate.localeCompare(b.acquiredDate)
+  );
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+        <div className="flex items-center">
+          <Layers className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Open Tax Lots</h2>
+        </div>
+        {isReadOnly || !onLotMethodChange ? (
+          <span className="text-sm text-gray-400">Lot method: {LOT_METHOD_LABELS[lotMethod]}</span>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <label className="text-sm text-gray-300">Lot method:</label>
+            <select
+              value={lotMethod}
+              onChange={(e) => onLotMethodChange(e.target.value as LotMethod)}
+              className="px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-700 text-white text-sm"
+            >
+              {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map(method => (
+                <option key={method} value={method}>{LOT_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      {sortedLots.length === 0 ? (
+        <p className="text-center text-gray-400 py-4">No open lots</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-600">
+                <th className="text-left py-3 px-4 font-medium text-gray-300">Symbol</th>
+                <th className="text-left py-3 px-4 font-medium text-gray-300">Acquired</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-300">Shares</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-300">Cost Basis</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-300">Adj. Basis</th>
+                <th className="text-right py-3 px-4 font-medium text-gray-300">Adj. / Share</th>
+                {hasExcessROC && (
+                  <th className="text-right py-3 px-4 font-medium text-gray-300" title="ROC received after basis reached zero, taxed as a capital gain">
+                    ROC Over Basis
+                  </th>
+                )}
+                <th className="text-right py-3 px-4 font-medium text-gray-300">Unrealized</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedLots.map(lot => {
+                const price = currentPrices[lot.symbol] || 0;
+                const unrealized = lot.remainingShares * price - lot.adjustedCostBasis;
+                return (
+                  <tr key={lot.id} className="border-b border-gray-700 hover:bg-gray-700/50 transition-colors">
+                    <td className="py-3 px-4 font-medium text-blue-200">{lot.symbol}</td>
+                    <td className="py-3 px-4 text-gray-200">{formatDate(lot.acquiredDate)}</td>
+                    <td className="py-3 px-4 text-right text-gray-200">
+                      {Precision.formatShares(lot.remainingShares)}
+                      {lot.remainingShares !== lot.shares && (
+                        <span className="text-xs text-gray-500"> / {Precision.formatShares(lot.shares)}</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right text-gray-200">{formatCurrency(lot.costBasis)}</td>
+                    <td className="py-3 px-4 text-right text-gray-200">{formatCurrency(lot.adjustedCostBasis)}</td>
+                    <td className="py-3 px-4 text-right text-gray-200">
+                      {formatCurrency(lot.adjustedCostBasis / lot.remainingShares)}
+                    </td>
+                    {hasExcessROC && (
+                      <td className="py-3 px-4 text-right text-yellow-300">{formatCurrency(lot.excessROC)}</td>
+                    )}
+                    <td className={`py-3 px-4 text-right font-medium ${unrealized >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                      {price > 0 ? formatCurrency(unrealized) : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { DistributionSources, DividendData, ReclassificationImpact } from '../types/investment';
+import { FileCheck, Undo2, CheckCircle, AlertCircle } from 'lucide-react';
+
+interface TaxYearReclassificationProps {
+  symbols: string[];
+  schedules: Record<string, DividendData[]>;
+  impacts: ReclassificationImpact[];
+  onReclassify?: (symbol: string, year: number, sources: DistributionSources) => void;
+  onUndo?: (symbol: string, year: number) => void;
+  isReadOnly?: boolean;
+}
+
+// Form 1099-DIV boxes as percentages of the year's total distributions
+const emptyForm = {
+  ordinary: 0, // box 1a less 1b
+  qualified: 0, // box 1b
+  shortTerm: 0,
+  longTerm: 0, // box 2a
+  returnOfCapital: 100, // box 3
+};
+
+export const TaxYearReclassification: React.FC<TaxYearReclassificationProps> = ({
+  symbols,
+  schedules,
+  impacts,
+  onReclassify,
+  onUndo,
+  isReadOnly = false,
+}) => {
+  const [selectedSymbol, setSelectedSymbol] = useState<string>(symbols[0] || '');
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [status, setStatus] = useState<{
+    type: 'success' | 'error' | null;
+    message: string;
+  }>({ type: null, message: '' });
+
+  const activeSymbol = symbols.includes(selectedSymbol) ? selectedSymbol : symbols[0] || '';
+  const rows = schedules[activeSymbol] || [];
+  const canEdit = !isReadOnly && !!onReclassify;
+
+  // Tax years with confirmed distributions, latest first
+  const currentYear = new Date().getFullYear();
+  const years = Array.from(new Set(rows.map(row => Number(row.payDate.slice(0, 4)))))
+    .filter(year => year <= currentYear)
+    .sort((a, b) => b - a);
+  const activeYear = selectedYear !== null && years.includes(selectedYear) ? selectedYear : years[0] ?? null;
+  const yearRows = rows.filter(row => Number(row.payDate.slice(0, 4)) === activeYear);
+  const total = Object.values(formData).reduce((sum, value) => sum + value, 0);
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+    }).format(amount);
+
+  const formatChange = (before: number, after: number) => {
+    const change = after - before;
+    if (Math.abs(change) < 0.005) return <span className="text-gray-500">no change</span>;
+    return (
+      <span className={change > 0 ? 'text-green-300' : 'text-red-300'}>
+        {change > 0 ? '+' : ''}{formatCurrency(change)}
+      </span>
+    );
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canEdit || activeYear === null) return;
+
+    if (Math.abs(total - 100) > 0.5) {
+      setStatus({ type: 'error', message: `Percentages add up to ${total.toFixed(2)}%, expected 100%` });
+      return;
+    }
+
+    onReclassify!(activeSymbol, activeYear, {
+      netInvestmentIncome: formData.ordinary + formData.qualified,
+      qualifiedDividends: formData.qualified,
+      shortTermGains: formData.shortTerm,
+      longTermGains: formData.longTerm,
+      returnOfCapital: formData.returnOfCapital,
+    });
+    setStatus({
+      type: 'success',
+      message: `Applied ${activeYear} 1099-DIV character to ${yearRows.length} ${activeSymbol} distributions`,
+    });
+  };
+
+  const handleUndo = (symbol: string, year: number) => {
+    if (onUndo && window.confirm(`Restore the estimated ${year} character for ${symbol}?`)) {
+      onUndo(symbol, year);
+      setStatus({ type: null, message: '' });
+    }
+  };
+
+  const fields: { key: keyof typeof emptyForm; label: string; hint: string }[] = [
+    { key: 'ordinary', label: 'Ordinary Dividends', hint: 'Box 1a less 1b' },
+    { key: 'qualified', label: 'Qualified Dividends', hint: 'Box 1b' },
+    { key: 'shortTerm', label: 'Short-Term Gain', hint: 'If reported separately' },
+    { key: 'longTerm', label: 'Long-Term Gain', hint: 'Box 2a' },
+    { key: 'returnOfCapital', label: 'Return of Capital', hint: 'Box 3' },
+  ];
+
+  if (symbols.length === 0 || (!canEdit && impacts.length === 0)) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-3">
+        <div className="flex items-center">
+          <FileCheck className="h-6 w-6 text-blue-400 mr-2" />
+          <h2 className="text-2xl font-bold text-white">Year-End 1099-DIV Reclassification</h2>
+        </div>
+        {canEdit && (
+          <div className="flex items-center space-x-2">
+            {symbols.length > 1 && (
+              <select
+                value={activeSymbol}
+                onChange={(e) => setSelectedSymbol(e.target.value)}
+                className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {symbols.map(symbol => (
+                  <option key={symbol} value={symbol}>{symbol}</option>
+                ))}
+              </select>
+            )}
+            {years.length > 0 && (
+              <select
+                value={activeYear ?? ''}
+                onChange={(e) => setSelectedYear(Number(e.target.value))}
+                className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {years.map(year => (
+                  <option key={year} value={year}>Tax year {year}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        )}
+      </div>
+
+      {status.type && (
+        <div className={`mb-4 p-3 rounded-lg border flex items-center text-sm ${
+          status.type === 'success'
+            ? 'bg-green-900/30 border-green-800 text-green-200'
+            : 'bg-red-900/30 border-red-800 text-red-200'
+        }`}>
+          {status.type === 'success' ? (
+            <CheckCircle className="h-5 w-5 text-green-400 mr-2 flex-shrink-0" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+          )}
+          {status.message}
+        </div>
+      )}
+
+      {canEdit && (
+        activeYear === null ? (
+          <p className="text-center text-gray-400 py-4">No confirmed {activeSymbol} distributions to reclassify.</p>
+        ) : (
+          <form onSubmit={handleApply} className="mb-6 p-4 bg-gray-700 rounded-lg border border-gray-600">
+            <p className="text-sm text-gray-300 mb-3">
+              Enter the final character of {activeSymbol}'s {activeYear} distributions as percentages of the year's
+              total. They replace the estimates on all {yearRows.length} distributions paid in {activeYear}; the
+              estimated values are kept and can be restored.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              {fields.map(field => (
+                <div key={field.key}>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">{field.label} %</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData[field.key]}
+                    onChange={(e) => setFormData({ ...formData, [field.key]: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">{field.hint}</p>
+                </div>
+              ))}
+            </div>
+            <div className="mt-4 flex items-center justify-between">
+              <span className={`text-sm ${Math.abs(total - 100) > 0.5 ? 'text-red-300' : 'text-gray-400'}`}>
+                Total {total.toFixed(2)}%
+              </span>
+              <button
+                type="submit"
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <FileCheck className="h-4 w-4 mr-1" />
+                Apply to {activeYear}
+              </button>
+            </div>
+          </form>
+        )
+      )}
+
+      {impacts.length === 0 ? (
+        <p className="text-sm text-gray-400">No tax years have been reclassified yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {impacts.map(impact => (
+            <div key={impact.symbol} className="p-4 bg-gray-700/50 rounded-lg border border-gray-600">
+              <h3 className="text-lg font-semibold text-blue-200 mb-3">{impact.symbol}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-400 border-b border-gray-600">
+                      <th className="text-left py-2 font-medium">Figure</th>
+                      <th className="text-right py-2 px-2 font-medium">Estimated</th>
+                      <th className="text-right py-2 px-2 font-medium">Final</th>
+                      <th className="text-right py-2 font-medium">Change</th>
+                      {canEdit && onUndo && <th className="py-2" />}
+                    </tr>
+                  </thead>
+                  <tbody className="text-gray-200">
+                    {impact.years.map(year => (
+                      <tr key={year.year} className="border-b border-gray-700">
+                        <td className="py-2">
+                          {year.year} ROC
+                          <span className="text-xs text-gray-400"> ({year.distributions} distributions)</span>
+                        </td>
+                        <td className="py-2 px-2 text-right">{formatCurrency(year.rocBefore)}</td>
+                        <td className="py-2 px-2 text-right">{formatCurrency(year.rocAfter)}</td>
+                        <td className="py-2 text-right">{formatChange(year.rocBefore, year.rocAfter)}</td>
+                        {canEdit && onUndo && (
+                          <td className="py-2 text-right">
+                            <button
+                              onClick={() => handleUndo(impact.symbol, year.year)}
+                              className="inline-flex items-center px-2 py-1 text-xs text-blue-300 hover:text-blue-200 hover:bg-blue-900/30 rounded transition-colors"
+                              title="Restore the estimated character for this year"
+                            >
+                              <Undo2 className="h-3 w-3 mr-1" />
+                              Undo
+                            </button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                    <tr className="border-b border-gray-700">
+                      <td className="py-2">Cumulative ROC</td>
+                      <td className="py-2 px-2 text-right">{formatCurrency(impact.cumulativeROCBefore)}</td>
+                      <td className="py-2 px-2 text-right">{formatCurrency(impact.cumulativeROCAfter)}</td>
+                      <td className="py-2 text-right">{formatChange(impact.cumulativeROCBefore, impact.cumulativeROCAfter)}</td>
+                      {canEdit && onUndo && <td />}
+                    </tr>
+                    <tr className="border-b border-gray-700">
+                      <td className="py-2">Adjusted Cost Basis</td>
+                      <td className="py-2 px-2 text-right">{formatCurrency(impact.adjustedCostBasisBefore)}</td>
+                      <td className="py-2 px-2 text-right">{formatCurrency(impact.adjustedCostBasisAfter)}</td>
+                      <td className="py-2 text-right">{formatChange(impact.adjustedCostBasisBefore, impact.adjustedCostBasisAfter)}</td>
+                      {canEdit && onUndo && <td />}
+                    </tr>
+                    <tr>
+                      <td className="py-2">Breakeven Price</td>
+                      <td className="py-2 px-2 text-right">{formatCurrency(impact.breakEvenPriceBefore)}</td>
+                      <td className="py-2 px-2 text-right">{formatCurrency(impact.breakEvenPriceAfter)}</td>
+                      <td className="py-2 text-right">{formatChange(impact.breakEvenPriceBefore, impact.breakEvenPriceAfter)}</td>
+                      {canEdit && onUndo && <td />}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
\ No newline at end of file
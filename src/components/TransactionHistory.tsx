@@ -1,10 +1,15 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import Papa from 'papaparse';
-import { Transaction } from '../types/investment';
-import { Plus, TrendingUp, TrendingDown, Calendar, Edit2, Trash2, Save, X, RefreshCw, Upload, CheckCircle, AlertCircle, Download } from 'lucide-react';
+import { OversoldSell, TaxLot, Transaction } from '../types/investment';
+import { DEFAULT_SYMBOL } from '../data/dividendSchedule';
+import { Precision } from '../utils/precision';
+import { Plus, TrendingUp, TrendingDown, Calendar, Edit2, Trash2, Save, X, RefreshCw, Upload, CheckCircle, AlertCircle, Download, Repeat } from 'lucide-react';
 
 interface TransactionHistoryProps {
   transactions: Transaction[];
+  lotsOpenOn?: (date: string, excludeTransactionId?: string) => TaxLot[];
+  oversells?: OversoldSell[];
+  reinvestments?: Transaction[];
   onAddTransaction: (transaction: Omit<Transaction, 'id'>) => void;
   onUpdateTransaction: (id: string, transaction: Omit<Transaction, 'id'>) => void;
   onRemoveTransaction: (id: string) => void;
@@ -14,6 +19,9 @@ interface TransactionHistoryProps {
 
 export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
   transactions,
+  lotsOpenOn,
+  oversells = [],
+  reinvestments = [],
   onAddTransaction,
   onUpdateTransaction,
   onRemoveTransaction,
@@ -30,10 +38,12 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
   }>({ type: null, message: '' });
   const [isImporting, setIsImporting] = useState(false);
   const [formData, setFormData] = useState({
+    symbol: DEFAULT_SYMBOL,
     date: new Date().toISOString().split('T')[0],
     type: 'buy' as 'buy' | 'sell',
     quantity: 0,
     price: 0,
+    lotId: '', // Specific lot to sell from; empty uses the portfolio's lot method
   });
 
   const formatCurrency = (amount: number) => 
@@ -58,13 +68,22 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const amount = formData.quantity * formData.price;
+    if (isOversold) return;
+    const { lotId, ...fields } = formData;
+    const transaction: Omit<Transaction, 'id'> = {
+      ...fields,
+      quantity: Precision.roundShares(fields.quantity),
+      amount: Precision.roundMoney(fields.quantity * fields.price),
+      ...(fields.type === 'sell' && lotId
+        ? { lotSelections: [{ lotId, quantity: Precision.roundShares(fields.quantity) }] }
+        : {}),
+    };
     
     if (editingId) {
-      onUpdateTransaction(editingId, { ...formData, amount });
+      onUpdateTransaction(editingId, transaction);
       setEditingId(null);
     } else {
-      onAddTransaction({ ...formData, amount });
+      onAddTransaction(transaction);
     }
     
     resetForm();
@@ -72,10 +91,12 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
 
   const resetForm = () => {
     setFormData({
+      symbol: formData.symbol || DEFAULT_SYMBOL, // Keep the last ticker for quick repeat entry
       date: new Date().toISOString().split('T')[0],
       type: 'buy',
       quantity: 0,
       price: 0,
+      lotId: '',
     });
     setShowForm(false);
     setEditingId(null);
@@ -83,10 +104,12 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
 
   const startEdit = (transaction: Transaction) => {
     setFormData({
+      symbol: transaction.symbol,
       date: transaction.date,
       type: transaction.type,
       quantity: transaction.quantity,
       price: transaction.price,
+      lotId: transaction.lotSelections?.[0]?.lotId || '',
     });
     setEditingId(transaction.id);
     setShowForm(true);
@@ -169,7 +192,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
             }
 
             // Validate quantity
-            const quantity = parseInt(row.quantity);
+            const quantity = Precision.parseShares(row.quantity);
             if (isNaN(quantity) || quantity <= 0) {
               errors.push(`Row ${rowNumber}: Quantity must be a positive number`);
               return;
@@ -182,13 +205,21 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               return;
             }
 
+            // Symbol column is optional; rows without one belong to ULTY
+            const symbol = (row.symbol || DEFAULT_SYMBOL).trim().toUpperCase();
+            if (!/^[A-Z][A-Z0-9.-]{0,9}$/.test(symbol)) {
+              errors.push(`Row ${rowNumber}: Invalid symbol '${row.symbol}'`);
+              return;
+            }
+
             // If all validations pass, add to valid transactions
             validTransactions.push({
+              symbol,
               date: date.toISOString().split('T')[0], // Format as YYYY-MM-DD
               type: type as 'buy' | 'sell',
               quantity,
               price,
-              amount: quantity * price
+              amount: Precision.roundMoney(quantity * price)
             });
           });
 
@@ -251,11 +282,11 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
 
   const downloadSampleCSV = () => {
     const sampleData = [
-      { date: '2025-01-15', type: 'buy', quantity: 100, price: 6.25 },
-      { date: '2025-01-20', type: 'buy', quantity: 200, price: 6.18 },
-      { date: '2025-01-25', type: 'sell', quantity: 50, price: 6.30 },
-      { date: '2025-01-30', type: 'buy', quantity: 150, price: 6.15 },
-      { date: '2025-02-05', type: 'buy', quantity: 300, price: 6.22 },
+      { symbol: 'ULTY', date: '2025-01-15', type: 'buy', quantity: 100, price: 6.25 },
+      { symbol: 'ULTY', date: '2025-01-20', type: 'buy', quantity: 200, price: 6.18 },
+      { symbol: 'ULTY', date: '2025-01-25', type: 'sell', quantity: 50, price: 6.30 },
+      { symbol: 'ULTY', date: '2025-01-30', type: 'buy', quantity: 12.3471, price: 6.15 },
+      { symbol: 'ULTY', date: '2025-02-05', type: 'buy', quantity: 300, price: 6.22 },
     ];
 
     const csv = Papa.unparse(sampleData);
@@ -274,11 +305,27 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
     .filter(t => t.type === 'buy')
     .reduce((sum, t) => sum + t.amount, 0);
 
-  const totalShares = transactions
-    .reduce((sum, t) => sum + (t.type === 'buy' ? t.quantity : -t.quantity), 0);
+  // Shares are only additive within a ticker, so total them per symbol.
+  // DRIP buys add shares but no new money.
+  const sharesBySymbol = [...transactions, ...reinvestments].reduce<Record<string, number>>((totals, t) => {
+    totals[t.symbol] = (totals[t.symbol] || 0) + (t.type === 'buy' ? t.quantity : -t.quantity);
+    return totals;
+  }, {});
+
+  // Lots a sell of the entered ticker can be matched against, as open on the
+  // sell's own date
+  const isSellForm = showForm && formData.type === 'sell';
+  const lotsOnDate = useMemo(
+    () => (isSellForm && lotsOpenOn && formData.date ? lotsOpenOn(formData.date, editingId || undefined) : []),
+    [isSellForm, lotsOpenOn, formData.date, editingId]
+  );
+  const sellableLots = lotsOnDate.filter(lot => lot.symbol === formData.symbol.trim().toUpperCase());
+  const availableShares = sellableLots.reduce((sum, lot) => sum + lot.remainingShares, 0);
+  const isOversold = isSellForm && !!lotsOpenOn && formData.quantity > availableShares + 1e-9;
+  const oversoldIds = new Set(oversells.map(oversell => oversell.sellId));
 
   // Sort transactions by date for display
-  const sortedTransactions = [...transactions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  const sortedTransactions = [...transactions, ...reinvestments].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   return (
     <div className="bg-gray-800 rounded-lg shadow-xl p-6 border border-gray-700">
@@ -368,6 +415,23 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
         </div>
       )}
 
+      {/* Sells for more shares than were held */}
+      {oversells.length > 0 && (
+        <div className="mb-4 p-4 rounded-lg border flex items-start bg-red-900/30 border-red-800 text-red-200">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2 mt-0.5 flex-shrink-0" />
+          <div className="flex-1 text-sm">
+            <p className="font-medium mb-1">Sells exceed the shares held</p>
+            {oversells.map(oversell => (
+              <p key={oversell.sellId}>
+                {formatDate(oversell.date)} {oversell.symbol}: sold {Precision.formatShares(oversell.requestedShares)} shares
+                with {Precision.formatShares(oversell.availableShares)} open. The excess has no basis and is left out of
+                realized gains until the sell or an earlier buy is corrected.
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* CSV Format Help */}
       {(showForm || showCsvInput) && (
         <div className="mb-6 p-4 bg-blue-900/20 border border-blue-800 rounded-lg">
@@ -392,6 +456,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               <table className="w-full text-xs">
                 <thead>
                   <tr className="bg-gray-700">
+                    <th className="border-r border-gray-600 px-3 py-2 text-left text-gray-300 font-medium">symbol</th>
                     <th className="border-r border-gray-600 px-3 py-2 text-left text-gray-300 font-medium">date</th>
                     <th className="border-r border-gray-600 px-3 py-2 text-left text-gray-300 font-medium">type</th>
                     <th className="border-r border-gray-600 px-3 py-2 text-left text-gray-300 font-medium">quantity</th>
@@ -400,18 +465,21 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                 </thead>
                 <tbody className="text-gray-300">
                   <tr className="border-t border-gray-600">
+                    <td className="border-r border-gray-600 px-3 py-2">ULTY</td>
                     <td className="border-r border-gray-600 px-3 py-2">2025-01-15</td>
                     <td className="border-r border-gray-600 px-3 py-2">buy</td>
                     <td className="border-r border-gray-600 px-3 py-2">100</td>
                     <td className="px-3 py-2">6.25</td>
                   </tr>
                   <tr className="border-t border-gray-600">
+                    <td className="border-r border-gray-600 px-3 py-2">ULTY</td>
                     <td className="border-r border-gray-600 px-3 py-2">2025-01-20</td>
                     <td className="border-r border-gray-600 px-3 py-2">buy</td>
                     <td className="border-r border-gray-600 px-3 py-2">200</td>
                     <td className="px-3 py-2">6.18</td>
                   </tr>
                   <tr className="border-t border-gray-600">
+                    <td className="border-r border-gray-600 px-3 py-2">ULTY</td>
                     <td className="border-r border-gray-600 px-3 py-2">2025-01-25</td>
                     <td className="border-r border-gray-600 px-3 py-2">sell</td>
                     <td className="border-r border-gray-600 px-3 py-2">50</td>
@@ -426,17 +494,18 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
           <div className="mb-3">
             <p className="text-xs text-blue-300 mb-2 font-medium">📝 Raw CSV Text Format:</p>
             <div className="bg-gray-800 p-3 rounded text-xs font-mono text-gray-300 border border-gray-600">
-              date,type,quantity,price<br/>
-              2025-01-15,buy,100,6.25<br/>
-              2025-01-20,buy,200,6.18<br/>
-              2025-01-25,sell,50,6.30
+              symbol,date,type,quantity,price<br/>
+              ULTY,2025-01-15,buy,100,6.25<br/>
+              ULTY,2025-01-20,buy,200,6.18<br/>
+              ULTY,2025-01-25,sell,50,6.30
             </div>
           </div>
           
           <ul className="text-xs text-blue-300 space-y-1">
+            <li>• <strong>symbol</strong>: Ticker (optional, defaults to ULTY)</li>
             <li>• <strong>date</strong>: YYYY-MM-DD format</li>
             <li>• <strong>type</strong>: "buy" or "sell"</li>
-            <li>• <strong>quantity</strong>: Number of shares (positive integer)</li>
+            <li>• <strong>quantity</strong>: Number of shares (positive, decimals allowed for fractional shares)</li>
             <li>• <strong>price</strong>: Price per share (positive number)</li>
             <li>• <strong>Tip</strong>: Download the sample CSV above to see the exact format</li>
           </ul>
@@ -468,7 +537,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               <textarea
                 value={csvText}
                 onChange={(e) => setCsvText(e.target.value)}
-                placeholder="date,type,quantity,price&#10;2025-01-15,buy,100,6.25&#10;2025-01-20,buy,200,6.18&#10;2025-01-25,sell,50,6.30"
+                placeholder="symbol,date,type,quantity,price&#10;ULTY,2025-01-15,buy,100,6.25&#10;ULTY,2025-01-20,buy,200,6.18&#10;ULTY,2025-01-25,sell,50,6.30"
                 className="w-full h-32 px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white font-mono text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-vertical"
                 disabled={isImporting}
               />
@@ -488,7 +557,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               </button>
               
               <button
-                onClick={() => setCsvText('date,type,quantity,price\n2025-01-15,buy,100,6.25\n2025-01-20,buy,200,6.18\n2025-01-25,sell,50,6.30')}
+                onClick={() => setCsvText('symbol,date,type,quantity,price\nULTY,2025-01-15,buy,100,6.25\nULTY,2025-01-20,buy,200,6.18\nULTY,2025-01-25,sell,50,6.30')}
                 className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
               >
                 <Plus className="h-4 w-4 mr-2" />
@@ -505,7 +574,19 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               {editingId ? 'Edit Transaction' : 'Add New Transaction'}
             </h3>
           </div>
-          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-6 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-1">Symbol</label>
+              <input
+                type="text"
+                value={formData.symbol}
+                onChange={(e) => setFormData({ ...formData, symbol: e.target.value.toUpperCase() })}
+                className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white uppercase"
+                placeholder={DEFAULT_SYMBOL}
+                pattern="[A-Za-z][A-Za-z0-9.\-]{0,9}"
+                required
+              />
+            </div>
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-1">Date</label>
               <input
@@ -531,9 +612,10 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               <label className="block text-sm font-medium text-gray-300 mb-1">Quantity</label>
               <input
                 type="number"
-                step="1"
+                step="any"
+                min="0"
                 value={formData.quantity || ''}
-                onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) || 0 })}
+                onChange={(e) => setFormData({ ...formData, quantity: parseFloat(e.target.value) || 0 })}
                 className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
                 required
               />
@@ -552,7 +634,8 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
             <div className="flex items-end gap-2">
               <button
                 type="submit"
-                className="flex-1 flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                disabled={isOversold}
+                className="flex-1 flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Save className="h-4 w-4 mr-1" />
                 {editingId ? 'Update' : 'Add'}
@@ -565,6 +648,30 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                 <X className="h-4 w-4" />
               </button>
             </div>
+            {formData.type === 'sell' && sellableLots.length > 0 && (
+              <div className="md:col-span-6">
+                <label className="block text-sm font-medium text-gray-300 mb-1">Sell From Lot</label>
+                <select
+                  value={formData.lotId}
+                  onChange={(e) => setFormData({ ...formData, lotId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 bg-gray-800 text-white"
+                >
+                  <option value="">Use portfolio lot method</option>
+                  {sellableLots.map(lot => (
+                    <option key={lot.id} value={lot.id}>
+                      {formatDate(lot.acquiredDate)} • {Precision.formatShares(lot.remainingShares)} shares • {formatCurrency(lot.adjustedCostBasis / lot.remainingShares)}/share adj. basis
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {isOversold && (
+              <p className="md:col-span-6 flex items-center text-sm text-red-300">
+                <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+                Only {Precision.formatShares(availableShares)} {formData.symbol.trim().toUpperCase() || DEFAULT_SYMBOL} shares
+                were open on {formatDate(formData.date)}.
+              </p>
+            )}
           </form>
         </div>
       )}
@@ -582,6 +689,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
               <thead>
                 <tr className="border-b border-gray-600">
                   <th className="text-left py-3 px-4 font-medium text-gray-300">Date</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-300">Symbol</th>
                   <th className="text-left py-3 px-4 font-medium text-gray-300">Type</th>
                   <th className="text-right py-3 px-4 font-medium text-gray-300">Quantity</th>
                   <th className="text-right py-3 px-4 font-medium text-gray-300">Price</th>
@@ -593,9 +701,12 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                 {sortedTransactions.map((transaction) => (
                   <tr key={transaction.id} className="border-b border-gray-700 hover:bg-gray-700/50 transition-colors">
                     <td className="py-3 px-4 text-gray-200">{formatDate(transaction.date)}</td>
+                    <td className="py-3 px-4 font-medium text-blue-200">{transaction.symbol}</td>
                     <td className="py-3 px-4">
                       <div className="flex items-center">
-                        {transaction.type === 'buy' ? (
+                        {transaction.source === 'drip' ? (
+                          <Repeat className="h-4 w-4 text-blue-400 mr-2" />
+                        ) : transaction.type === 'buy' ? (
                           <TrendingUp className="h-4 w-4 text-green-400 mr-2" />
                         ) : (
                           <TrendingDown className="h-4 w-4 text-red-400 mr-2" />
@@ -605,9 +716,19 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                         }`}>
                           {transaction.type}
                         </span>
+                        {transaction.source === 'drip' && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-blue-900/50 text-blue-300 border border-blue-800">
+                            DRIP
+                          </span>
+                        )}
+                        {oversoldIds.has(transaction.id) && (
+                          <span title="More shares sold than were held on this date">
+                            <AlertCircle className="h-4 w-4 text-red-400 ml-2" />
+                          </span>
+                        )}
                       </div>
                     </td>
-                    <td className="py-3 px-4 text-right text-gray-200">{transaction.quantity.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right text-gray-200">{Precision.formatShares(transaction.quantity)}</td>
                     <td className="py-3 px-4 text-right text-gray-200">{formatCurrency(transaction.price)}</td>
                     <td className="py-3 px-4 text-right">
                       <span className={`font-medium ${
@@ -617,6 +738,9 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                       </span>
                     </td>
                     <td className="py-3 px-4">
+                      {transaction.source === 'drip' ? (
+                        <p className="text-center text-xs text-gray-500" title="Generated from the DRIP setting">Auto</p>
+                      ) : (
                       <div className="flex items-center justify-center space-x-2">
                         <button
                           onClick={() => startEdit(transaction)}
@@ -633,6 +757,7 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
                           <Trash2 className="h-4 w-4" />
                         </button>
                       </div>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -643,7 +768,11 @@ export const TransactionHistory: React.FC<TransactionHistoryProps> = ({
           <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="p-4 bg-blue-900/30 rounded-lg border border-blue-800">
               <h3 className="text-sm font-medium text-blue-300 mb-1">Total Shares</h3>
-              <p className="text-xl font-bold text-blue-100">{totalShares.toLocaleString()}</p>
+              {Object.entries(sharesBySymbol).sort(([a], [b]) => a.localeCompare(b)).map(([symbol, shares]) => (
+                <p key={symbol} className="text-xl font-bold text-blue-100">
+                  {Precision.formatShares(shares)} <span className="text-sm font-medium text-blue-300">{symbol}</span>
+                </p>
+              ))}
             </div>
             <div className="p-4 bg-green-900/30 rounded-lg border border-green-800">
               <h3 className="text-sm font-medium text-green-300 mb-1">Total Invested</h3>
@@ -1,96 +1,140 @@
 import { DividendData } from '../types/investment';
+import { EstimationModels, EstimationOptions } from '../utils/estimationModels';
+import { TradingCalendar } from '../utils/tradingCalendar';
+import { ProjectionHorizons } from '../utils/projectionHorizon';
 
-// Real ULTY dividend data from March 2025 onwards (when it went weekly)
+export const DEFAULT_SYMBOL = 'ULTY';
+
+// Real ULTY dividend data from March 2025 onwards (when it went weekly).
+// Ex-dates fall on the trading day before payment.
 export const ULTY_2025_DIVIDENDS: DividendData[] = [
   // March 2025 - when weekly distributions started
-  { date: '2025-03-07', amount: 0.4653, rocPercentage: 100 },
-  { date: '2025-03-14', amount: 0.1025, rocPercentage: 100 },
-  { date: '2025-03-21', amount: 0.0977, rocPercentage: 100 },
-  { date: '2025-03-28', amount: 0.0986, rocPercentage: 100 },
+  { exDate: '2025-03-06', payDate: '2025-03-07', amount: 0.4653, rocPercentage: 100 },
+  { exDate: '2025-03-13', payDate: '2025-03-14', amount: 0.1025, rocPercentage: 100 },
+  { exDate: '2025-03-20', payDate: '2025-03-21', amount: 0.0977, rocPercentage: 100 },
+  { exDate: '2025-03-27', payDate: '2025-03-28', amount: 0.0986, rocPercentage: 100 },
   
   // April 2025
-  { date: '2025-04-04', amount: 0.0916, rocPercentage: 100 },
-  { date: '2025-04-11', amount: 0.0822, rocPercentage: 100 },
-  { date: '2025-04-21', amount: 0.0852, rocPercentage: 100 },
-  { date: '2025-04-25', amount: 0.0836, rocPercentage: 100 },
+  { exDate: '2025-04-03', payDate: '2025-04-04', amount: 0.0916, rocPercentage: 100 },
+  { exDate: '2025-04-10', payDate: '2025-04-11', amount: 0.0822, rocPercentage: 100 },
+  { exDate: '2025-04-17', payDate: '2025-04-21', amount: 0.0852, rocPercentage: 100 },
+  { exDate: '2025-04-24', payDate: '2025-04-25', amount: 0.0836, rocPercentage: 100 },
   
   // May 2025
-  { date: '2025-05-02', amount: 0.0936, rocPercentage: 100 },
-  { date: '2025-05-09', amount: 0.1181, rocPercentage: 100 },
-  { date: '2025-05-16', amount: 0.1059, rocPercentage: 100 },
-  { date: '2025-05-23', amount: 0.0979, rocPercentage: 100 },
-  { date: '2025-05-30', amount: 0.0954, rocPercentage: 100 },
+  { exDate: '2025-05-01', payDate: '2025-05-02', amount: 0.0936, rocPercentage: 100 },
+  { exDate: '2025-05-08', payDate: '2025-05-09', amount: 0.1181, rocPercentage: 100 },
+  { exDate: '2025-05-15', payDate: '2025-05-16', amount: 0.1059, rocPercentage: 100 },
+  { exDate: '2025-05-22', payDate: '2025-05-23', amount: 0.0979, rocPercentage: 100 },
+  { exDate: '2025-05-29', payDate: '2025-05-30', amount: 0.0954, rocPercentage: 100 },
   
   // June 2025
-  { date: '2025-06-06', amount: 0.0945, rocPercentage: 100 },
-  { date: '2025-06-13', amount: 0.0950, rocPercentage: 100 },
-  { date: '2025-06-23', amount: 0.0875, rocPercentage: 100 },
-  { date: '2025-06-27', amount: 0.0923, rocPercentage: 100 },
-].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-// Calculate average of last 6 dividends for future estimates
-const getAverageOfLastSix = (): number => {
-  const lastSix = ULTY_2025_DIVIDENDS.slice(-6);
-  const sum = lastSix.reduce((total, div) => total + div.amount, 0);
-  return sum / lastSix.length;
+  { exDate: '2025-06-05', payDate: '2025-06-06', amount: 0.0945, rocPercentage: 100 },
+  { exDate: '2025-06-12', payDate: '2025-06-13', amount: 0.0950, rocPercentage: 100 },
+  { exDate: '2025-06-20', payDate: '2025-06-23', amount: 0.0875, rocPercentage: 100 },
+  { exDate: '2025-06-26', payDate: '2025-06-27', amount: 0.0923, rocPercentage: 100 },
+].sort((a, b) => new Date(a.exDate).getTime() - new Date(b.exDate).getTime());
+
+// Model used when no estimation settings are given
+const DEFAULT_ESTIMATION: EstimationOptions = {
+  model: 'mean',
+  lookback: EstimationModels.DEFAULT_LOOKBACK,
 };
 
-// Generate estimated future dividends (weekly through end of 2025)
-const generateEstimatedDividends = (): DividendData[] => {
-  const estimatedAmount = getAverageOfLastSix();
-  const lastDate = new Date(ULTY_2025_DIVIDENDS[ULTY_2025_DIVIDENDS.length - 1].date);
+// Weekday (0 = Sunday) the fund usually goes ex on. Holiday weeks roll the
+// ex-date later, so the most common recent weekday is taken.
+const getCadenceWeekday = (actualDividends: DividendData[]): number => {
+  const counts = new Map<number, number>();
+  actualDividends.slice(-6).forEach(div => {
+    const weekday = new Date(`${div.exDate}T00:00:00Z`).getUTCDay();
+    counts.set(weekday, (counts.get(weekday) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+};
+
+// Generate estimated future dividends weekly through the end date. Each week's
+// ex-date rolls forward past market holidays, and payment follows on the next
+// trading day, as in the confirmed history. The tax character follows the
+// confirmed distributions in the estimation window.
+const generateEstimatedDividends = (
+  actualDividends: DividendData[],
+  estimation: EstimationOptions,
+  endDate: string
+): DividendData[] => {
+  if (actualDividends.length === 0) return [];
+
+  const lastExDate = actualDividends[actualDividends.length - 1].exDate;
+  const cadenceWeekday = getCadenceWeekday(actualDividends);
+  const character = EstimationModels.character(actualDividends, estimation);
   const estimatedDividends: DividendData[] = [];
-  
-  // Generate weekly dividends from July through December 2025
-  let currentDate = new Date(lastDate);
-  currentDate.setDate(currentDate.getDate() + 7); // Start one week after last known dividend
-  
-  const endOfYear = new Date('2025-12-31');
-  
-  while (currentDate <= endOfYear) {
-    // Skip major holidays (approximate dates)
-    const month = currentDate.getMonth() + 1;
-    const day = currentDate.getDate();
-    
-    // Skip around July 4th, Thanksgiving week, Christmas week
-    const isHoliday = (month === 7 && day === 4) || 
-                     (month === 11 && day >= 25) || 
-                     (month === 12 && day >= 23);
-    
-    if (!isHoliday) {
-      estimatedDividends.push({
-        date: currentDate.toISOString().split('T')[0],
-        amount: estimatedAmount,
-        rocPercentage: 100,
-        isEstimated: true
-      });
-    }
-    
-    currentDate.setDate(currentDate.getDate() + 7);
+
+  // First usual ex weekday after the last known distribution
+  const lastWeekday = new Date(`${lastExDate}T00:00:00Z`).getUTCDay();
+  let nominalExDate = TradingCalendar.shift(lastExDate, ((cadenceWeekday - lastWeekday + 6) % 7) + 1);
+
+  while (nominalExDate <= endDate) {
+    const exDate = TradingCalendar.rollForward(nominalExDate);
+    const payDate = TradingCalendar.nextTradingDay(exDate);
+    const estimate = EstimationModels.estimate(actualDividends, estimation, estimatedDividends.length + 1);
+
+    estimatedDividends.push({
+      exDate,
+      payDate,
+      amount: estimate.amount,
+      amountLow: estimate.low,
+      amountHigh: estimate.high,
+      ...character,
+      isEstimated: true
+    });
+
+    nominalExDate = TradingCalendar.shift(nominalExDate, 7);
   }
   
   return estimatedDividends;
 };
 
-// Combine actual and estimated dividends
-export const ALL_DIVIDENDS = [
-  ...ULTY_2025_DIVIDENDS,
-  ...generateEstimatedDividends()
-];
+// Built-in distribution history per ticker. Each session's editable schedule
+// is seeded from this; tickers without an entry start with no distributions.
+export const BUILT_IN_DIVIDENDS: Record<string, DividendData[]> = {
+  ULTY: ULTY_2025_DIVIDENDS,
+};
+
+// Combine confirmed and estimated dividends for every ticker with history.
+// Estimates start after the latest confirmed distribution and run to the
+// projection end date, a year from today unless given.
+export const buildDividendSchedules = (
+  confirmed: Record<string, DividendData[]> = BUILT_IN_DIVIDENDS,
+  estimationFor: (symbol: string) => EstimationOptions = () => DEFAULT_ESTIMATION,
+  projectionEndDate: string = ProjectionHorizons.endDate(
+    ProjectionHorizons.DEFAULT,
+    new Date().toISOString().split('T')[0]
+  )
+): Record<string, DividendData[]> =>
+  Object.fromEntries(
+    Object.entries(confirmed).map(([symbol, rows]) => {
+      const actual = [...rows].sort((a, b) => a.exDate.localeCompare(b.exDate));
+      return [symbol, [...actual, ...generateEstimatedDividends(actual, estimationFor(symbol), projectionEndDate)]];
+    })
+  );
+
+export const DIVIDEND_SCHEDULES: Record<string, DividendData[]> = buildDividendSchedules();
+
+export const getDividendSchedule = (symbol: string = DEFAULT_SYMBOL): DividendData[] => {
+  return DIVIDEND_SCHEDULES[symbol.toUpperCase()] || [];
+};
 
-export const getNextDividendDate = (): string | null => {
+export const getNextDividendDate = (symbol: string = DEFAULT_SYMBOL): string | null => {
   const today = new Date();
-  const nextDividend = ALL_DIVIDENDS.find(dividend => 
-    new Date(dividend.date) > today
+  const nextDividend = getDividendSchedule(symbol).find(dividend => 
+    new Date(dividend.payDate) > today
   );
-  return nextDividend ? nextDividend.date : null;
+  return nextDividend ? nextDividend.payDate : null;
 };
 
-export const getDividendAmount = (date: string): number => {
-  const dividend = ALL_DIVIDENDS.find(d => d.date === date);
+export const getDividendAmount = (date: string, symbol: string = DEFAULT_SYMBOL): number => {
+  const dividend = getDividendSchedule(symbol).find(d => d.payDate === date || d.exDate === date);
   return dividend ? dividend.amount : 0;
 };
 
-export const getEstimatedWeeklyAmount = (): number => {
-  return getAverageOfLastSix();
+export const getEstimatedWeeklyAmount = (symbol: string = DEFAULT_SYMBOL): number => {
+  return EstimationModels.estimate(BUILT_IN_DIVIDENDS[symbol.toUpperCase()] || [], DEFAULT_ESTIMATION).amount;
 };
\ No newline at end of file
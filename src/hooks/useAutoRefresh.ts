@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DividendData, LastSynced, SyncType } from '../types/investment';
+import { MarketDataProvider } from '../services/marketDataProvider';
+import { DividendUpdateService, YahooDividendData } from '../services/dividendUpdateService';
+import { SessionManager } from '../utils/sessionManager';
+import { RefreshSchedule } from '../utils/refreshSchedule';
+
+const STORAGE_KEY = 'ulty_lastsynced';
+const TICK_MS = 60000;
+
+interface AutoRefreshOptions {
+  sessionId: string;
+  enabled: boolean;
+  intervalMinutes: number;
+  marketData: MarketDataProvider;
+  symbols: string[];
+  schedules: Record<string, DividendData[]>;
+  onPrice: (symbol: string, price: number) => void;
+  onDividends: (symbol: string, dividends: YahooDividendData[]) => void;
+}
+
+const loadLastSynced = (sessionId: string): LastSynced => {
+  try {
+    const raw = localStorage.getItem(SessionManager.getStorageKey(STORAGE_KEY, sessionId));
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Polls quotes while the market is open and checks for new declarations on
+// the usual announcement day. The declaration checks run even with price
+// polling off. Only live Polygon.io data is polled, and nothing runs while
+// the tab is hidden.
+export const useAutoRefresh = (options: AutoRefreshOptions) => {
+  const { sessionId, enabled } = options;
+  const providerId = options.marketData.id;
+  const [lastSynced, setLastSynced] = useState<LastSynced>({});
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // The timer reads the latest options without restarting on every render
+  const latest = useRef({ ...options, lastSynced });
+  latest.current = { ...options, lastSynced };
+  const running = useRef(false);
+
+  useEffect(() => {
+    if (sessionId) setLastSynced(loadLastSynced(sessionId));
+  }, [sessionId]);
+
+  // Manual and fixture data are not a sync, so only Polygon.io fetches count
+  const markSynced = useCallback((type: SyncType) => {
+    if (latest.current.marketData.id !== 'polygon') return;
+    setLastSynced(prev => {
+      const next = { ...prev, [type]: new Date().toISOString() };
+      if (sessionId) {
+        localStorage.setItem(SessionManager.getStorageKey(STORAGE_KEY, sessionId), JSON.stringify(next));
+      }
+      return next;
+    });
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!enabled || providerId !== 'polygon') return;
+
+    const refreshPrices = async () => {
+      const { marketData, symbols, onPrice } = latest.current;
+      let updated = false;
+      for (const symbol of symbols) {
+        const result = await marketData.getQuote(symbol);
+        if (result.success && result.data) {
+          onPrice(symbol, result.data.price);
+          updated = true;
+        }
+      }
+      if (updated) markSynced('prices');
+    };
+
+    const refreshDividends = async () => {
+      const { marketData, symbols, schedules, onDividends } = latest.current;
+      let checked = false;
+      for (const symbol of symbols) {
+        const confirmed = (schedules[symbol] || []).filter(row => !row.isEstimated);
+        const since = confirmed[confirmed.length - 1]?.exDate;
+        const result = await DividendUpdateService.fetchLatestDividends(symbol, marketData, since);
+        if (!result.success || !result.data) continue;
+        checked = true;
+
+        // Only new or changed distributions, so repeat checks add no revisions
+        const changed = result.data.filter(item =>
+          !confirmed.some(row => row.exDate === item.exDate && row.amount === item.amount)
+        );
+        if (changed.length > 0) onDividends(symbol, changed);
+      }
+      if (checked) markSynced('dividends');
+    };
+
+    const tick = async () => {
+      if (document.hidden || running.current) return;
+      const { intervalMinutes, schedules, symbols, lastSynced } = latest.current;
+      if (symbols.length === 0) return;
+
+      const now = new Date();
+      const pricesDue = RefreshSchedule.pricesDue(lastSynced.prices, intervalMinutes, now);
+      const dividendsDue = symbols.some(symbol =>
+        RefreshSchedule.dividendsDue(schedules[symbol] || [], lastSynced.dividends, now)
+      );
+      if (!pricesDue && !dividendsDue) return;
+
+      running.current = true;
+      setIsRefreshing(true);
+      try {
+        if (pricesDue) await refreshPrices();
+        if (dividendsDue) await refreshDividends();
+      } catch (error) {
+        console.error('Automatic refresh failed:', error);
+      } finally {
+        running.current = false;
+        setIsRefreshing(false);
+      }
+    };
+
+    // Catch up as soon as the tab is visible again
+    const handleVisibility = () => {
+      if (!document.hidden) tick();
+    };
+
+    tick();
+    const timer = setInterval(tick, TICK_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enabled, providerId, markSynced]);
+
+  return { lastSynced, isRefreshing, markSynced };
+};
\ No newline at end of file
@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BUILT_IN_DIVIDENDS } from '../data/dividendSchedule';
+import { DividendScheduleManager } from '../utils/dividendScheduleManager';
+import { useInvestmentData } from './useInvestmentData';
+
+describe('useInvestmentData.createNewSession', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    window.history.replaceState({}, '', '/');
+  });
+
+  it('starts the new session from the built-in schedule and defaults', () => {
+    const { result } = renderHook(() => useInvestmentData());
+    const [first] = BUILT_IN_DIVIDENDS.ULTY;
+
+    act(() => {
+      result.current.saveScheduleEntry('ULTY', { ...first, amount: first.amount + 1 }, first.exDate);
+      result.current.updateSettings({ lotMethod: 'hifo', dripPercentage: 50 });
+      result.current.updatePriceHistory('ULTY', [{ date: '2025-01-02', close: 6 }]);
+    });
+    expect(result.current.scheduleState.revisions).toHaveLength(1);
+
+    const previousSession = result.current.sessionId;
+    act(() => {
+      result.current.createNewSession();
+    });
+
+    expect(result.current.sessionId).not.toBe(previousSession);
+    expect(result.current.scheduleState).toEqual(DividendScheduleManager.initialState(BUILT_IN_DIVIDENDS));
+    expect(result.current.settings.lotMethod).toBe('fifo');
+    expect(result.current.settings.dripPercentage).toBe(0);
+    expect(result.current.priceHistory).toEqual({});
+  });
+
+  it('keeps schedule revisions with the session that made them', () => {
+    const { result } = renderHook(() => useInvestmentData());
+    const [first] = BUILT_IN_DIVIDENDS.ULTY;
+    const savedRevisions = (sessionId: string) =>
+      JSON.parse(localStorage.getItem(`ulty_schedule_${sessionId}`) || '{}').revisions;
+
+    act(() => {
+      result.current.saveScheduleEntry('ULTY', { ...first, amount: first.amount + 1 }, first.exDate);
+    });
+    const previousSession = result.current.sessionId;
+    act(() => {
+      result.current.createNewSession();
+    });
+
+    expect(savedRevisions(previousSession)).toHaveLength(1);
+    expect(savedRevisions(result.current.sessionId)).toEqual([]);
+  });
+});
\ No newline at end of file
@@ -1,133 +1,199 @@
-import { useState, useEffect } from 'react';
-import { Investment, Transaction, Dividend } from '../types/investment';
-import { ALL_DIVIDENDS } from '../data/dividendSchedule';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { DistributionSources, DividendData, DividendScheduleState, PortfolioSettings, PriceHistory, PricePoint, Transaction } from '../types/investment';
+import { BUILT_IN_DIVIDENDS, DEFAULT_SYMBOL, buildDividendSchedules } from '../data/dividendSchedule';
+import { PortfolioEngine } from '../utils/portfolioEngine';
 import { SessionManager } from '../utils/sessionManager';
 import { StorageManager } from '../utils/storageManager';
+import { Precision } from '../utils/precision';
+import { PriceHistoryManager } from '../utils/priceHistory';
+import { PortfolioTimeline } from '../utils/portfolioTimeline';
+import { DividendScheduleManager } from '../utils/dividendScheduleManager';
+import { EstimationModels } from '../utils/estimationModels';
+import { ProjectionHorizons } from '../utils/projectionHorizon';
+import { RefreshSchedule } from '../utils/refreshSchedule';
+import { Section19aRow } from '../utils/section19a';
+import { YearEndReclassification } from '../utils/reclassification';
 import { YahooDividendData } from '../services/dividendUpdateService';
+import { MarketDataProviders } from '../services/marketDataProvider';
 
 const STORAGE_KEYS = {
   INVESTMENT: 'ulty_investment',
   TRANSACTIONS: 'ulty_transactions',
   DIVIDENDS: 'ulty_dividends',
   CURRENT_PRICE: 'ulty_current_price',
+  SETTINGS: 'ulty_settings',
+  PRICE_HISTORY: 'ulty_pricehistory',
+  SCHEDULE: 'ulty_schedule',
+};
+
+const DEFAULT_PRICES: Record<string, number> = { [DEFAULT_SYMBOL]: 6.23 }; // Default ULTY price
+
+// The provider default depends on whether a Polygon.io key is saved, so it is
+// evaluated whenever settings are built rather than once at load
+const defaultSettings = (): PortfolioSettings => ({
+  lotMethod: 'fifo',
+  dripPercentage: 0,
+  estimationModel: 'mean',
+  estimationLookback: EstimationModels.DEFAULT_LOOKBACK,
+  projectionHorizon: ProjectionHorizons.DEFAULT,
+  projectionEndDate: '',
+  marketDataProvider: MarketDataProviders.defaultId(),
+  autoRefreshMinutes: RefreshSchedule.DEFAULT_MINUTES,
+});
+
+const normalizeSymbol = (symbol?: string) => (symbol || DEFAULT_SYMBOL).trim().toUpperCase();
+
+// Transactions saved before multi-ticker support have no symbol and were all ULTY.
+// Quantities and amounts are stored at the precision set by Precision.
+const normalizeTransaction = (transaction: Transaction): Transaction => ({
+  ...transaction,
+  symbol: normalizeSymbol(transaction.symbol),
+  quantity: Precision.roundShares(transaction.quantity),
+  amount: Precision.roundMoney(transaction.amount),
+});
+
+// Saved prices may be a per-symbol map, a single ULTY price object, or a bare number
+const parseSavedPrices = (raw: string): Record<string, number> => {
+  const parsed = JSON.parse(raw);
+  if (typeof parsed === 'number') return { [DEFAULT_SYMBOL]: parsed };
+  if (parsed?.currentPrices) return parsed.currentPrices;
+  if (typeof parsed?.currentPrice === 'number') return { [DEFAULT_SYMBOL]: parsed.currentPrice };
+  return {};
+};
+
+// Keep only known settings; stored data also carries a lastModified stamp
+const parseSavedSettings = (raw: string): PortfolioSettings => {
+  const parsed = JSON.parse(raw);
+  const settings = defaultSettings();
+  (Object.keys(settings) as (keyof PortfolioSettings)[]).forEach(key => {
+    if (parsed?.[key] !== undefined) Object.assign(settings, { [key]: parsed[key] });
+  });
+  return settings;
+};
+
+// Stored history is a symbol -> series map plus a lastModified stamp
+const parseSavedPriceHistory = (raw: string): PriceHistory => {
+  const parsed = JSON.parse(raw);
+  const history: PriceHistory = {};
+  Object.entries(parsed || {}).forEach(([symbol, points]) => {
+    if (Array.isArray(points)) history[symbol] = points;
+  });
+  return history;
+};
+
+// Keep only symbol -> rows entries from a stored map
+const parseScheduleMap = (parsed: unknown): Record<string, DividendData[]> => {
+  const schedules: Record<string, DividendData[]> = {};
+  Object.entries(parsed || {}).forEach(([symbol, rows]) => {
+    if (Array.isArray(rows)) schedules[symbol] = rows;
+  });
+  return schedules;
+};
+
+// Stored schedules hold the edited rows and revisions. Sessions saved before
+// the editor hold only confirmed rows, which are merged over the built-in seed.
+const parseSavedSchedule = (parsed: { schedules?: unknown; revisions?: unknown } | null): DividendScheduleState => {
+  if (parsed?.schedules) {
+    return {
+      schedules: parseScheduleMap(parsed.schedules),
+      revisions: Array.isArray(parsed.revisions) ? parsed.revisions : [],
+    };
+  }
+
+  const state = DividendScheduleManager.initialState(BUILT_IN_DIVIDENDS);
+  Object.entries(parseScheduleMap(parsed)).forEach(([symbol, rows]) => {
+    state.schedules[symbol] = DividendScheduleManager.merge(state.schedules[symbol] || [], rows);
+  });
+  return state;
 };
 
 export const useInvestmentData = () => {
   const [sessionId, setSessionId] = useState<string>('');
   const [isReadOnly, setIsReadOnly] = useState<boolean>(false);
   const [isPortableMode, setIsPortableMode] = useState<boolean>(false);
-  const [investment, setInvestment] = useState<Investment | null>(null);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [dividends, setDividends] = useState<Dividend[]>([]);
-  const [currentPrice, setCurrentPrice] = useState<number>(6.23); // Default ULTY price
-
-  // Calculate dividends based on transactions and their dates
-  const calculateDividendsFromTransactions = (transactionList: Transaction[]) => {
-    let cumulativeROC = 0;
-    const sortedTransactions = [...transactionList].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    return ALL_DIVIDENDS.map((div, index) => {
-      const divDate = new Date(div.date);
-      
-      // Calculate shares owned at the time of this dividend
-      // Only count transactions that occurred BEFORE the dividend date
-      let sharesAtDivDate = 0;
-      for (const transaction of sortedTransactions) {
-        const transactionDate = new Date(transaction.date);
-        if (transactionDate < divDate) { // Must own shares BEFORE dividend date
-          sharesAtDivDate += transaction.type === 'buy' ? transaction.quantity : -transaction.quantity;
-        }
-      }
-      
-      // Only calculate dividend if we owned shares at that time
-      const distributionAmount = sharesAtDivDate > 0 ? sharesAtDivDate * div.amount : 0;
-      const rocPortion = distributionAmount * (div.rocPercentage / 100);
-      cumulativeROC += rocPortion;
-      
-      // Calculate cost basis at this point in time
-      let costBasisAtDivDate = 0;
-      for (const transaction of sortedTransactions) {
-        const transactionDate = new Date(transaction.date);
-        if (transactionDate < divDate) {
-          costBasisAtDivDate += transaction.type === 'buy' ? transaction.amount : -transaction.amount;
-        }
-      }
-      
-      const adjustedCostBasis = costBasisAtDivDate - cumulativeROC;
-      const breakEvenPrice = sharesAtDivDate > 0 ? adjustedCostBasis / sharesAtDivDate : 0;
-
-      return {
-        id: `div-${index}`,
-        payDate: div.date,
-        distributionRate: div.amount,
-        shares: sharesAtDivDate,
-        distributionAmount: distributionAmount,
-        rocPercentage: div.rocPercentage,
-        rocPortion: rocPortion,
-        cumulativeROC: cumulativeROC,
-        adjustedCostBasis: adjustedCostBasis,
-        adjCostBasis: breakEvenPrice,
-        breakEvenPrice: breakEvenPrice,
-        isEstimated: div.isEstimated || false,
-      };
+  const [currentPrices, setCurrentPrices] = useState<Record<string, number>>(DEFAULT_PRICES);
+  const [settings, setSettings] = useState<PortfolioSettings>(defaultSettings);
+  const [priceHistory, setPriceHistory] = useState<PriceHistory>({});
+  const [scheduleState, setScheduleState] = useState<DividendScheduleState>(
+    () => DividendScheduleManager.initialState(BUILT_IN_DIVIDENDS)
+  );
+
+  // This session's confirmed distributions plus estimates from the chosen
+  // model. The horizon counts from today, so it moves on as days pass.
+  const today = new Date().toISOString().split('T')[0];
+  const projectionEndDate = ProjectionHorizons.endDate(settings.projectionHorizon, today, settings.projectionEndDate);
+  const schedules = useMemo(() => buildDividendSchedules(scheduleState.schedules, symbol => ({
+    model: settings.estimationModel,
+    lookback: settings.estimationLookback,
+    currentPrice: currentPrices[symbol],
+    priceOn: date => PriceHistoryManager.priceOn(priceHistory, symbol, date),
+  }), projectionEndDate), [
+    scheduleState.schedules,
+    settings.estimationModel,
+    settings.estimationLookback,
+    currentPrices,
+    priceHistory,
+    projectionEndDate,
+  ]);
+
+  // Holdings and the dividend ledger are derived from transactions and prices
+  const ledger = useMemo(() => PortfolioEngine.calculate({
+    transactions,
+    schedules,
+    prices: currentPrices,
+    asOf: new Date().toISOString().split('T')[0],
+    lotMethod: settings.lotMethod,
+    dripPercentage: settings.dripPercentage,
+    priceHistory,
+  }), [transactions, schedules, currentPrices, settings.lotMethod, settings.dripPercentage, priceHistory]);
+  const { investments, dividends, lots, disposals, excessROCGains, reinvestments, oversells } = ledger;
+
+  // Lots open at the end of a date, leaving out the transaction being edited,
+  // so back-dated sells can pick lots that later sales closed
+  const lotsOpenOn = useCallback((date: string, excludeTransactionId?: string) => PortfolioEngine.calculate({
+    transactions: transactions.filter(t => t.id !== excludeTransactionId),
+    schedules,
+    prices: currentPrices,
+    asOf: date,
+    lotMethod: settings.lotMethod,
+    dripPercentage: settings.dripPercentage,
+    priceHistory,
+  }).lots, [transactions, schedules, currentPrices, settings.lotMethod, settings.dripPercentage, priceHistory]);
+
+  // The same ledger with the estimated character restored, to show what
+  // year-end 1099-DIV reclassification changed
+  const reclassificationImpact = useMemo(() => {
+    if (!YearEndReclassification.hasReclassifications(schedules)) return [];
+    const before = PortfolioEngine.calculate({
+      transactions,
+      schedules: YearEndReclassification.restoreOriginals(schedules),
+      prices: currentPrices,
+      asOf: new Date().toISOString().split('T')[0],
+      lotMethod: settings.lotMethod,
+      dripPercentage: settings.dripPercentage,
+      priceHistory,
     });
-  };
+    return YearEndReclassification.impact(schedules, before, ledger);
+  }, [transactions, schedules, currentPrices, settings.lotMethod, settings.dripPercentage, priceHistory, ledger]);
 
-  // Calculate total dividends received based on transaction dates
-  const calculateTotalDividendsReceived = (transactionList: Transaction[]) => {
-    let totalDividends = 0;
-    const sortedTransactions = [...transactionList].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    for (const div of ALL_DIVIDENDS) {
-      const divDate = new Date(div.date);
-      
-      // Calculate shares owned at the time of this dividend
-      // Only count transactions that occurred BEFORE the dividend date
-      let sharesAtDivDate = 0;
-      for (const transaction of sortedTransactions) {
-        const transactionDate = new Date(transaction.date);
-        if (transactionDate < divDate) { // Must own shares BEFORE dividend date
-          sharesAtDivDate += transaction.type === 'buy' ? transaction.quantity : -transaction.quantity;
-        }
-      }
-      
-      // Only add dividend if we owned shares and the dividend has actually been paid
-      if (sharesAtDivDate > 0 && new Date(div.date) <= new Date()) {
-        totalDividends += sharesAtDivDate * div.amount;
-      }
-    }
-    
-    return totalDividends;
-  };
-
-  // Calculate cumulative ROC based on actual dividends received
-  const calculateCumulativeROC = (transactionList: Transaction[]) => {
-    let cumulativeROC = 0;
-    const sortedTransactions = [...transactionList].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    for (const div of ALL_DIVIDENDS) {
-      const divDate = new Date(div.date);
-      
-      // Calculate shares owned at the time of this dividend
-      // Only count transactions that occurred BEFORE the dividend date
-      let sharesAtDivDate = 0;
-      for (const transaction of sortedTransactions) {
-        const transactionDate = new Date(transaction.date);
-        if (transactionDate < divDate) { // Must own shares BEFORE dividend date
-          sharesAtDivDate += transaction.type === 'buy' ? transaction.quantity : -transaction.quantity;
-        }
-      }
-      
-      // Only add ROC if we owned shares and the dividend has actually been paid
-      if (sharesAtDivDate > 0 && new Date(div.date) <= new Date()) {
-        const distributionAmount = sharesAtDivDate * div.amount;
-        const rocPortion = distributionAmount * (div.rocPercentage / 100);
-        cumulativeROC += rocPortion;
-      }
-    }
-    
-    return cumulativeROC;
-  };
+  // Value over time for the chart, from the same inputs as the ledger
+  const timeline = useMemo(() => PortfolioTimeline.build({
+    transactions,
+    schedules,
+    currentPrices,
+    priceHistory,
+    asOf: new Date().toISOString().split('T')[0],
+    lotMethod: settings.lotMethod,
+    dripPercentage: settings.dripPercentage,
+  }), [transactions, schedules, currentPrices, priceHistory, settings.lotMethod, settings.dripPercentage]);
+
+  // Quotes, history and dividends come from the provider chosen in settings
+  const marketData = useMemo(() => MarketDataProviders.create(settings.marketDataProvider, {
+    priceHistory,
+    currentPrices,
+    schedules: scheduleState.schedules,
+  }), [settings.marketDataProvider, priceHistory, currentPrices, scheduleState.schedules]);
 
   // Initialize session and data from localStorage or URL
   useEffect(() => {
@@ -141,10 +207,13 @@ export const useInvestmentData = () => {
         setIsPortableMode(true);
         setIsReadOnly(true);
         setSessionId('portable');
-        setCurrentPrice(portableData.currentPrice || 6.23);
-        setInvestment(portableData.investment);
+        setCurrentPrices({ ...DEFAULT_PRICES, ...portableData.currentPrices });
         setTransactions(portableData.transactions || []);
-        setDividends(portableData.dividends || []);
+        setSettings({ ...defaultSettings(), ...portableData.settings });
+        setPriceHistory(portableData.priceHistory || {});
+        if (portableData.dividendSchedules) {
+          setScheduleState(parseSavedSchedule({ schedules: portableData.dividendSchedules }));
+        }
         return;
       }
     }
@@ -160,48 +229,55 @@ export const useInvestmentData = () => {
       // Load read-only snapshot data
       const snapshot = SessionManager.getReadOnlySnapshot(currentSessionId);
       if (snapshot) {
-        setCurrentPrice(snapshot.currentPrice || 6.23);
-        setInvestment(snapshot.investment);
-        setTransactions(snapshot.transactions || []);
-        setDividends(snapshot.dividends || []);
+        // Snapshots taken before multi-ticker support hold a single ULTY position
+        setCurrentPrices(snapshot.currentPrices || { [DEFAULT_SYMBOL]: snapshot.currentPrice || 6.23 });
+        setTransactions((snapshot.transactions || []).map(normalizeTransaction));
+        setSettings({ ...defaultSettings(), ...snapshot.settings });
+        setPriceHistory(snapshot.priceHistory || {});
+        if (snapshot.dividendSchedules || snapshot.confirmedDividends) {
+          setScheduleState(parseSavedSchedule(
+            snapshot.dividendSchedules ? { schedules: snapshot.dividendSchedules } : snapshot.confirmedDividends
+          ));
+        }
       }
     } else {
-      // Load current price
+      // Load current prices
       const savedPrice = localStorage.getItem(
         SessionManager.getStorageKey(STORAGE_KEYS.CURRENT_PRICE, currentSessionId)
       );
       if (savedPrice) {
-        setCurrentPrice(parseFloat(savedPrice));
+        setCurrentPrices({ ...DEFAULT_PRICES, ...parseSavedPrices(savedPrice) });
       }
 
-      // Load investment data
-      const savedInvestment = localStorage.getItem(
-        SessionManager.getStorageKey(STORAGE_KEYS.INVESTMENT, currentSessionId)
-      );
-      if (savedInvestment) {
-        setInvestment(JSON.parse(savedInvestment));
-      }
-
-      // Load transactions
+      // Load transactions; holdings and dividends are recalculated from them
       const savedTransactions = localStorage.getItem(
         SessionManager.getStorageKey(STORAGE_KEYS.TRANSACTIONS, currentSessionId)
       );
       if (savedTransactions) {
-        const loadedTransactions = JSON.parse(savedTransactions);
-        setTransactions(loadedTransactions);
-        
-        // If we have transactions but no investment, calculate it
-        if (!savedInvestment && loadedTransactions.length > 0) {
-          updateInvestmentData(loadedTransactions, currentSessionId);
-        }
+        setTransactions(
+          StorageManager.parseStoredList<Transaction>(savedTransactions).map(normalizeTransaction)
+        );
+      }
+
+      const savedSettings = localStorage.getItem(
+        SessionManager.getStorageKey(STORAGE_KEYS.SETTINGS, currentSessionId)
+      );
+      if (savedSettings) {
+        setSettings(parseSavedSettings(savedSettings));
       }
 
-      // Load dividends
-      const savedDividends = localStorage.getItem(
-        SessionManager.getStorageKey(STORAGE_KEYS.DIVIDENDS, currentSessionId)
+      const savedPriceHistory = localStorage.getItem(
+        SessionManager.getStorageKey(STORAGE_KEYS.PRICE_HISTORY, currentSessionId)
       );
-      if (savedDividends) {
-        setDividends(JSON.parse(savedDividends));
+      if (savedPriceHistory) {
+        setPriceHistory(parseSavedPriceHistory(savedPriceHistory));
+      }
+
+      const savedSchedule = localStorage.getItem(
+        SessionManager.getStorageKey(STORAGE_KEYS.SCHEDULE, currentSessionId)
+      );
+      if (savedSchedule) {
+        setScheduleState(parseSavedSchedule(JSON.parse(savedSchedule)));
       }
     }
   }, []);
@@ -209,77 +285,82 @@ export const useInvestmentData = () => {
   // Save to localStorage whenever data changes (only if not read-only and not portable)
   useEffect(() => {
     if (sessionId && !isReadOnly && !isPortableMode) {
-      const compressedData = StorageManager.compressData({ currentPrice });
+      const compressedData = StorageManager.compressData({ currentPrices });
       localStorage.setItem(
         SessionManager.getStorageKey(STORAGE_KEYS.CURRENT_PRICE, sessionId),
         compressedData
       );
     }
-  }, [currentPrice, sessionId, isReadOnly, isPortableMode]);
+  }, [currentPrices, sessionId, isReadOnly, isPortableMode]);
 
   useEffect(() => {
-    if (investment && sessionId && !isReadOnly && !isPortableMode) {
-      const compressedData = StorageManager.compressData(investment);
+    if (sessionId && !isReadOnly && !isPortableMode) {
+      const compressedData = StorageManager.compressData(transactions);
       localStorage.setItem(
-        SessionManager.getStorageKey(STORAGE_KEYS.INVESTMENT, sessionId),
+        SessionManager.getStorageKey(STORAGE_KEYS.TRANSACTIONS, sessionId),
         compressedData
       );
     }
-  }, [investment, sessionId, isReadOnly, isPortableMode]);
+  }, [transactions, sessionId, isReadOnly, isPortableMode]);
 
   useEffect(() => {
     if (sessionId && !isReadOnly && !isPortableMode) {
-      const compressedData = StorageManager.compressData(transactions);
       localStorage.setItem(
-        SessionManager.getStorageKey(STORAGE_KEYS.TRANSACTIONS, sessionId),
-        compressedData
+        SessionManager.getStorageKey(STORAGE_KEYS.SETTINGS, sessionId),
+        StorageManager.compressData(settings)
       );
     }
-  }, [transactions, sessionId, isReadOnly, isPortableMode]);
+  }, [settings, sessionId, isReadOnly, isPortableMode]);
 
   useEffect(() => {
     if (sessionId && !isReadOnly && !isPortableMode) {
-      const compressedData = StorageManager.compressData(dividends);
       localStorage.setItem(
-        SessionManager.getStorageKey(STORAGE_KEYS.DIVIDENDS, sessionId),
-        compressedData
+        SessionManager.getStorageKey(STORAGE_KEYS.PRICE_HISTORY, sessionId),
+        StorageManager.compressData(priceHistory)
       );
     }
-  }, [dividends, sessionId, isReadOnly, isPortableMode]);
+  }, [priceHistory, sessionId, isReadOnly, isPortableMode]);
+
+  useEffect(() => {
+    if (sessionId && !isReadOnly && !isPortableMode) {
+      localStorage.setItem(
+        SessionManager.getStorageKey(STORAGE_KEYS.SCHEDULE, sessionId),
+        StorageManager.compressData(scheduleState)
+      );
+    }
+  }, [scheduleState, sessionId, isReadOnly, isPortableMode]);
 
   const addTransaction = (transaction: Omit<Transaction, 'id'>) => {
     if (isReadOnly || isPortableMode) return;
     
-    const newTransaction: Transaction = {
+    const newTransaction: Transaction = normalizeTransaction({
       ...transaction,
       id: Date.now().toString(),
-    };
+    });
     const updatedTransactions = [...transactions, newTransaction];
-    updateInvestmentData(updatedTransactions, sessionId);
+    updateInvestmentData(updatedTransactions);
   };
 
   const updateTransaction = (id: string, updatedTransaction: Omit<Transaction, 'id'>) => {
     if (isReadOnly || isPortableMode) return;
     
     const updatedTransactions = transactions.map(t => 
-      t.id === id ? { ...updatedTransaction, id } : t
+      t.id === id ? normalizeTransaction({ ...updatedTransaction, id }) : t
     );
-    updateInvestmentData(updatedTransactions, sessionId);
+    updateInvestmentData(updatedTransactions);
   };
 
   const removeTransaction = (id: string) => {
     if (isReadOnly || isPortableMode) return;
     
     const updatedTransactions = transactions.filter(t => t.id !== id);
-    updateInvestmentData(updatedTransactions, sessionId);
+    updateInvestmentData(updatedTransactions);
   };
 
   const clearAllTransactions = () => {
     if (isReadOnly || isPortableMode) return;
     
     setTransactions([]);
-    setInvestment(null);
-    setDividends([]);
     
     // Clear session-specific localStorage (but keep current price)
     if (sessionId) {
@@ -289,14 +370,16 @@ export const useInvestmentData = () => {
     }
   };
 
-  const updateHoldings = (shares: number, avgPrice: number) => {
+  const updateHoldings = (symbol: string, shares: number, avgPrice: number) => {
     if (isReadOnly || isPortableMode) return;
     
-    const costBasis = shares * avgPrice;
+    const costBasis = Precision.roundMoney(shares * avgPrice);
+    const holdingSymbol = normalizeSymbol(symbol);
     
-    // Clear existing transactions and create a new one based on the holdings
+    // Replace this symbol's transactions with a single one based on the holdings
     const newTransaction: Transaction = {
-      id: '1',
+      id: `${holdingSymbol}-${Date.now()}`,
+      symbol: holdingSymbol,
       date: new Date().toISOString().split('T')[0],
       type: 'buy',
       quantity: shares,
@@ -304,30 +387,67 @@ export const useInvestmentData = () => {
       amount: costBasis,
     };
     
-    const updatedTransactions = [newTransaction];
-    updateInvestmentData(updatedTransactions, sessionId);
+    const updatedTransactions = [
+      ...transactions.filter(t => t.symbol !== holdingSymbol),
+      newTransaction,
+    ];
+    updateInvestmentData(updatedTransactions);
   };
 
-  const updateDividendData = (newDividends: YahooDividendData[], newCurrentPrice?: number) => {
+  const updateDividendData = (
+    newDividends: YahooDividendData[],
+    newCurrentPrice?: number,
+    symbol: string = DEFAULT_SYMBOL
+  ) => {
     if (isReadOnly || isPortableMode) return;
     
+    const dividendSymbol = normalizeSymbol(symbol);
+
     // Update current price if provided
     if (newCurrentPrice && newCurrentPrice > 0) {
-      setCurrentPrice(newCurrentPrice);
-    }
-    
-    // For now, we'll just trigger a recalculation with existing data
-    // In a full implementation, you would merge the new dividend data with existing data
-    if (transactions.length > 0) {
-      updateInvestmentData(transactions, sessionId);
+      setCurrentPrices(prev => ({ ...prev, [dividendSymbol]: newCurrentPrice }));
     }
     
-    // TODO: Implement actual dividend data merging logic here
-    // This would involve:
-    // 1. Parsing the new dividend data
-    // 2. Merging with existing dividend schedule
-    // 3. Recalculating all dividend-related metrics
-    console.log('New dividend data received:', newDividends);
+    // Confirmed values replace matching estimates and new dates are inserted;
+    // holdings and the ledger recalculate from the merged schedule
+    const incoming = DividendScheduleManager.fromFetched(newDividends, schedules[dividendSymbol]);
+    setScheduleState(prev => DividendScheduleManager.importEntries(prev, dividendSymbol, incoming));
+  };
+
+  const saveScheduleEntry = (symbol: string, entry: DividendData, originalExDate?: string) => {
+    if (isReadOnly || isPortableMode) return;
+    setScheduleState(prev => DividendScheduleManager.saveEntry(prev, normalizeSymbol(symbol), entry, originalExDate));
+  };
+
+  // Section 19a sources update ROC% on matching confirmed distributions
+  const importSection19a = (symbol: string, notices: Section19aRow[]) => {
+    if (isReadOnly || isPortableMode) return { matched: 0, unmatched: notices.map(notice => notice.date) };
+    const result = DividendScheduleManager.applySources(scheduleState, normalizeSymbol(symbol), notices);
+    setScheduleState(result.state);
+    return { matched: result.matched, unmatched: result.unmatched };
+  };
+
+  const reclassifyYear = (symbol: string, year: number, sources: DistributionSources) => {
+    if (isReadOnly || isPortableMode) return;
+    setScheduleState(prev => DividendScheduleManager.reclassifyYear(prev, normalizeSymbol(symbol), year, sources));
+  };
+
+  const undoReclassification = (symbol: string, year: number) => {
+    if (isReadOnly || isPortableMode) return;
+    setScheduleState(prev => DividendScheduleManager.undoReclassification(prev, normalizeSymbol(symbol), year));
+  };
+
+  const deleteScheduleEntry = (symbol: string, exDate: string) => {
+    if (isReadOnly || isPortableMode) return;
+    setScheduleState(prev => DividendScheduleManager.deleteEntry(prev, normalizeSymbol(symbol), exDate));
+  };
+
+  // Pass null to restore the built-in schedule
+  const rollbackSchedule = (symbol: string, revisionId: string | null) => {
+    if (isReadOnly || isPortableMode) return;
+    setScheduleState(prev =>
+      DividendScheduleManager.rollback(prev, normalizeSymbol(symbol), revisionId, BUILT_IN_DIVIDENDS)
+    );
   };
 
   const addTransactionsBatch = (newTransactions: Omit<Transaction, 'id'>[]) => {
@@ -335,7 +455,7 @@ export const useInvestmentData = () => {
     
     try {
       // Add IDs to new transactions
-      const transactionsWithIds: Transaction[] = newTransactions.map((transaction, index) => ({
+      const transactionsWithIds: Transaction[] = newTransactions.map((transaction, index) => normalizeTransaction({
         ...transaction,
         id: `${Date.now()}-${index}`,
       }));
@@ -344,7 +464,7 @@ export const useInvestmentData = () => {
       const updatedTransactions = [...transactions, ...transactionsWithIds];
       
       // Update investment data with all transactions
-      updateInvestmentData(updatedTransactions, sessionId);
+      updateInvestmentData(updatedTransactions);
       
       return { success: true, count: newTransactions.length };
     } catch (error) {
@@ -352,97 +472,43 @@ export const useInvestmentData = () => {
     }
   };
 
-  const updateInvestmentData = (updatedTransactions: Transaction[], currentSessionId: string = sessionId) => {
+  const updateInvestmentData = (updatedTransactions: Transaction[]) => {
     if (isReadOnly || isPortableMode) return;
     
+    // Holdings and dividends recalculate from the new transaction list
     setTransactions(updatedTransactions);
+  };
 
-    if (updatedTransactions.length === 0) {
-      setInvestment(null);
-      setDividends([]);
-      return;
-    }
-
-    // Recalculate investment data
-    const totalShares = updatedTransactions.reduce((sum, t) => 
-      sum + (t.type === 'buy' ? t.quantity : -t.quantity), 0
-    );
+  const updateCurrentPrice = (symbol: string, newPrice: number) => {
+    if (isReadOnly || isPortableMode) return;
     
-    const totalCost = updatedTransactions.reduce((sum, t) => 
-      sum + (t.type === 'buy' ? t.amount : -t.amount), 0
-    );
+    setCurrentPrices(prev => ({ ...prev, [normalizeSymbol(symbol)]: newPrice }));
+  };
 
-    const avgPrice = totalShares > 0 ? totalCost / totalShares : 0;
-    const marketValue = totalShares * currentPrice;
-    const capitalGainLoss = marketValue - totalCost;
-
-    // Recalculate dividends with new transaction history
-    const updatedDividends = calculateDividendsFromTransactions(updatedTransactions);
-    setDividends(updatedDividends);
-
-    // Calculate total dividends received and cumulative ROC based on transaction dates
-    const totalDividendsReceived = calculateTotalDividendsReceived(updatedTransactions);
-    const cumulativeROC = calculateCumulativeROC(updatedTransactions);
-    const adjustedCostBasis = totalCost - cumulativeROC;
-    const adjustedCapitalGainLoss = marketValue - adjustedCostBasis;
-
-    // Fix the Adjusted Total P&L calculation - don't double count ROC
-    const nonROCDividends = totalDividendsReceived - cumulativeROC;
-    const adjustedTotalProfitLoss = adjustedCapitalGainLoss + nonROCDividends;
-
-    const newInvestment: Investment = {
-      symbol: 'ULTY',
-      name: 'ULTY',
-      shares: totalShares,
-      avgPrice,
-      costBasis: totalCost,
-      adjustedCostBasis,
-      currentPrice,
-      marketValue,
-      capitalGainLoss,
-      adjustedCapitalGainLoss,
-      totalDividends: totalDividendsReceived,
-      totalProfitLoss: capitalGainLoss + totalDividendsReceived,
-      adjustedTotalProfitLoss,
-      roi: totalCost > 0 ? (capitalGainLoss + totalDividendsReceived) / totalCost * 100 : 0,
-      adjustedRoi: adjustedCostBasis > 0 ? adjustedTotalProfitLoss / adjustedCostBasis * 100 : 0,
-      cumulativeROC,
-      breakEvenPrice: totalShares > 0 ? adjustedCostBasis / totalShares : 0,
-    };
+  const updateSettings = (updates: Partial<PortfolioSettings>) => {
+    if (isReadOnly || isPortableMode) return;
 
-    setInvestment(newInvestment);
+    setSettings(prev => ({ ...prev, ...updates }));
   };
 
-  const updateCurrentPrice = (newPrice: number) => {
+  const updatePriceHistory = (symbol: string, points: PricePoint[]) => {
     if (isReadOnly || isPortableMode) return;
-    
-    setCurrentPrice(newPrice);
-    
-    if (investment) {
-      const marketValue = investment.shares * newPrice;
-      const capitalGainLoss = marketValue - investment.costBasis;
-      const adjustedCapitalGainLoss = marketValue - investment.adjustedCostBasis;
-      const totalProfitLoss = capitalGainLoss + investment.totalDividends;
-      
-      // Fix the Adjusted Total P&L calculation here too
-      const nonROCDividends = investment.totalDividends - investment.cumulativeROC;
-      const adjustedTotalProfitLoss = adjustedCapitalGainLoss + nonROCDividends;
-      
-      const roi = investment.costBasis > 0 ? (totalProfitLoss / investment.costBasis) * 100 : 0;
-      const adjustedRoi = investment.adjustedCostBasis > 0 ? (adjustedTotalProfitLoss / investment.adjustedCostBasis) * 100 : 0;
-
-      setInvestment(prev => prev ? {
-        ...prev,
-        currentPrice: newPrice,
-        marketValue,
-        capitalGainLoss,
-        adjustedCapitalGainLoss,
-        totalProfitLoss,
-        adjustedTotalProfitLoss,
-        roi,
-        adjustedRoi,
-      } : null);
-    }
+
+    const historySymbol = normalizeSymbol(symbol);
+    setPriceHistory(prev => ({
+      ...prev,
+      [historySymbol]: PriceHistoryManager.merge(prev[historySymbol] || [], points),
+    }));
+  };
+
+  const removePricePoint = (symbol: string, date: string) => {
+    if (isReadOnly || isPortableMode) return;
+
+    const historySymbol = normalizeSymbol(symbol);
+    setPriceHistory(prev => ({
+      ...prev,
+      [historySymbol]: PriceHistoryManager.remove(prev[historySymbol] || [], date),
+    }));
   };
 
   const createNewSession = () => {
@@ -451,10 +517,13 @@ export const useInvestmentData = () => {
     const newSessionId = SessionManager.createNewSession();
     setSessionId(newSessionId);
     
-    // Clear current data but keep the current price
+    // Start from the built-in schedule and default settings, keeping only the
+    // current prices; otherwise the save effects copy this session's edits,
+    // revisions and closes into the new one
     setTransactions([]);
-    setInvestment(null);
-    setDividends([]);
+    setSettings(defaultSettings());
+    setPriceHistory({});
+    setScheduleState(DividendScheduleManager.initialState(BUILT_IN_DIVIDENDS));
     
     return newSessionId;
   };
@@ -468,22 +537,43 @@ export const useInvestmentData = () => {
     
     // Create a snapshot of current portfolio data
     const portfolioSnapshot = {
-      investment,
+      investments,
       transactions,
       dividends,
-      currentPrice,
+      currentPrices,
+      settings,
+      priceHistory,
+      dividendSchedules: scheduleState.schedules,
     };
     
     return SessionManager.createReadOnlyURL(sessionId, portfolioSnapshot);
   };
 
   const getPortableURL = () => {
-    // Create a fully portable URL with embedded data
+    // Create a fully portable URL with embedded data. The edited schedule goes
+    // in as changes against the built-in one. Of the price history, only the
+    // closes the ledger reads are kept: past DRIP pay dates and, for the yield
+    // model, the ex-dates it looks back over. The chart's full series would
+    // push the URL past its length limit.
+    const ledgerCloses: PriceHistory = {};
+    Object.entries(scheduleState.schedules).forEach(([symbol, rows]) => {
+      const past = rows.filter(row => row.payDate <= today);
+      const dates = [
+        ...(settings.dripPercentage > 0 ? past.map(row => row.payDate) : []),
+        ...(settings.estimationModel === 'yield' ? past.slice(-settings.estimationLookback).map(row => row.exDate) : []),
+      ];
+      const points = dates
+        .map(date => ({ date, close: PriceHistoryManager.priceOn(priceHistory, symbol, date) || 0 }))
+        .filter(point => point.close > 0);
+      if (points.length > 0) ledgerCloses[symbol] = PriceHistoryManager.merge([], points);
+    });
+
     const portfolioData = {
-      investment,
       transactions,
-      dividends,
-      currentPrice,
+      currentPrices,
+      settings,
+      dividendSchedules: scheduleState.schedules,
+      priceHistory: ledgerCloses,
     };
     
     return SessionManager.createPortableURL(portfolioData);
@@ -493,21 +583,43 @@ export const useInvestmentData = () => {
     sessionId,
     isReadOnly: isReadOnly || isPortableMode,
     isPortableMode,
-    investment,
+    investments,
+    portfolioTotals: ledger.totals,
     transactions,
     dividends,
-    currentPrice,
+    lots,
+    disposals,
+    excessROCGains,
+    reinvestments,
+    oversells,
+    lotsOpenOn,
+    currentPrices,
+    settings,
+    priceHistory,
+    scheduleState,
+    reclassificationImpact,
+    timeline,
+    marketData,
     addTransaction,
     updateTransaction,
     removeTransaction,
     clearAllTransactions,
     updateCurrentPrice,
     updateHoldings,
+    updateSettings,
+    updatePriceHistory,
+    removePricePoint,
     createNewSession,
     getShareableURL,
     getReadOnlyShareableURL,
     getPortableURL,
     updateDividendData,
+    saveScheduleEntry,
+    deleteScheduleEntry,
+    importSection19a,
+    reclassifyYear,
+    undoReclassification,
+    rollbackSchedule,
     addTransactionsBatch,
   };
 };
\ No newline at end of file
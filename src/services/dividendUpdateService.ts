@@ -1,42 +1,61 @@
-// Service to fetch dividend data from Yahoo Finance
-import { PolygonService, PolygonDividendData } from './polygonService';
+// Service to fetch dividend data from the active market data provider
+import { MarketDataProvider, PolygonMarketData } from './marketDataProvider';
 
 export interface YahooDividendData {
   date: string;
   amount: number;
+  exDate?: string;
+  recordDate?: string;
+  payDate?: string;
 }
 
 export class DividendUpdateService {
   private static readonly YAHOO_FINANCE_URL = 'https://finance.yahoo.com/quote/ULTY/history/?filter=div';
 
-  // Fetch dividend data from Polygon.io API
-  static async fetchLatestDividends(symbol: string = 'ULTY'): Promise<{
+  // Fetch dividends and the current price, from Polygon.io unless another
+  // provider is given. With `since`, only ex-dates from then on are pulled.
+  static async fetchLatestDividends(
+    symbol: string = 'ULTY',
+    provider: MarketDataProvider = new PolygonMarketData(),
+    since?: string
+  ): Promise<{
     success: boolean;
     data?: YahooDividendData[];
     currentPrice?: number;
     error?: string;
+    warning?: string;
+    fromCache?: boolean;
+    fetchedAt?: number;
   }> {
     try {
-      // Get both price and dividend data from Polygon
-      const result = await PolygonService.getStockData(symbol);
+      const [priceResult, dividendResult] = await Promise.all([
+        provider.getQuote(symbol),
+        provider.getDividends(symbol, since)
+      ]);
       
-      if (!result.success) {
+      if (!priceResult.success && !dividendResult.success) {
         return {
           success: false,
-          error: result.error || 'Failed to fetch data from Polygon.io'
+          error: dividendResult.error || 'Failed to fetch price and dividend data'
         };
       }
 
-      // Convert Polygon dividend format to our format
-      const dividends: YahooDividendData[] = result.dividends?.map(div => ({
-        date: div.paymentDate || div.exDividendDate,
-        amount: div.amount
+      // Convert provider dividends to our format
+      const dividends: YahooDividendData[] = dividendResult.data?.map(div => ({
+        date: div.payDate || div.exDate,
+        amount: div.amount,
+        exDate: div.exDate,
+        recordDate: div.recordDate,
+        payDate: div.payDate
       })) || [];
 
       return {
         success: true,
         data: dividends,
-        currentPrice: result.price?.price
+        currentPrice: priceResult.data?.price,
+        warning: dividendResult.success ? dividendResult.error : undefined,
+        fromCache: dividendResult.fromCache,
+        fetchedAt: dividendResult.fetchedAt
       };
     } catch (error) {
       return {
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fixture from '../data/marketDataFixture.json';
+import { MarketDataProviders } from './marketDataProvider';
+
+const source = {
+  priceHistory: { ULTY: [{ date: '2025-06-26', close: 6.1 }, { date: '2025-06-27', close: 6.2 }] },
+  currentPrices: { ULTY: 6.25 },
+  schedules: { ULTY: [{ exDate: '2025-06-26', payDate: '2025-06-27', amount: 0.0923, rocPercentage: 100 }] },
+};
+
+// Both offline providers must answer without touching the network
+beforeEach(() => {
+  vi.stubGlobal('fetch', vi.fn(() => {
+    throw new Error('Network access in an offline provider');
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FixtureMarketData', () => {
+  const recorded = fixture.tickers.ULTY;
+  const marketData = MarketDataProviders.create('fixture', source);
+
+  it('replays the recorded quote and previous close', async () => {
+    const [bar] = recorded.prev.results;
+    const quote = await marketData.getQuote('ulty');
+
+    expect(marketData.id).toBe('fixture');
+    expect(quote.data).toMatchObject({ symbol: 'ULTY', price: bar.c, timestamp: bar.t });
+    expect((await marketData.getPreviousClose('ULTY')).data).toEqual(quote.data);
+  });
+
+  it('replays the recorded daily bars within the range', async () => {
+    const history = await marketData.getDailyHistory('ULTY', '2025-06-01', '2025-06-30');
+    const expected = recorded.aggs.results
+      .map(bar => ({ date: new Date(bar.t).toISOString().split('T')[0], close: bar.c }))
+      .filter(bar => bar.date >= '2025-06-01');
+
+    expect(history.data?.map(({ date, close }) => ({ date, close }))).toEqual(expected);
+  });
+
+  it('replays the recorded dividends and splits', async () => {
+    const dividends = await marketData.getDividends('ULTY', '2025-06-20');
+    const splits = await marketData.getSplits('ULTY');
+
+    expect(dividends.data).toEqual(recorded.dividends.results
+      .filter(div => div.ex_dividend_date >= '2025-06-20')
+      .map(div => ({
+        exDate: div.ex_dividend_date,
+        payDate: div.pay_date,
+        recordDate: div.record_date,
+        declaredDate: div.declaration_date,
+        amount: div.cash_amount,
+      })));
+    expect(splits.data).toEqual(recorded.splits.results.map((split: { execution_date: string; split_from: number; split_to: number }) => ({
+      executionDate: split.execution_date,
+      splitFrom: split.split_from,
+      splitTo: split.split_to,
+    })));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('reports tickers without a recording', async () => {
+    expect(await marketData.getQuote('YMAX')).toEqual({ success: false, error: 'No recorded data for YMAX' });
+  });
+});
+
+describe('ManualMarketData', () => {
+  const marketData = MarketDataProviders.create('manual', source);
+
+  it("serves the session's prices, closes and distributions", async () => {
+    expect((await marketData.getQuote('ULTY')).data?.price).toBe(6.25);
+    expect((await marketData.getPreviousClose('ULTY')).data?.price).toBe(6.2);
+    expect((await marketData.getDailyHistory('ULTY', '2025-06-27', '2025-06-30')).data?.map(bar => bar.close)).toEqual([6.2]);
+    expect((await marketData.getDividends('ULTY')).data).toEqual([
+      { exDate: '2025-06-26', payDate: '2025-06-27', recordDate: undefined, amount: 0.0923 },
+    ]);
+    expect((await marketData.getSplits('ULTY')).data).toEqual([]);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
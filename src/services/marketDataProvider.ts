@@ -0,0 +1,268 @@
+// Market data behind one interface, so refreshes work the same whether data
+// comes from Polygon.io, the session's own manual/CSV entries or recorded
+// responses replayed offline
+import { DividendData, MarketDataProviderId, PriceHistory } from '../types/investment';
+import {
+  PolygonAggregateBar,
+  PolygonBar,
+  PolygonDividendRecord,
+  PolygonResponse,
+  PolygonService,
+  PolygonSplitRecord,
+  PolygonStockData,
+} from './polygonService';
+import fixture from '../data/marketDataFixture.json';
+
+export interface MarketDataResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  fromCache?: boolean;
+  fetchedAt?: number; // epoch ms the data was fetched, when known
+}
+
+export type MarketQuote = PolygonStockData;
+export type DailyBar = PolygonAggregateBar;
+
+export interface MarketDividend {
+  exDate: string;
+  payDate?: string;
+  recordDate?: string;
+  declaredDate?: string;
+  amount: number;
+}
+
+export interface MarketSplit {
+  executionDate: string;
+  splitFrom: number;
+  splitTo: number;
+}
+
+export interface MarketDataProvider {
+  readonly id: MarketDataProviderId;
+  getQuote(symbol: string): Promise<MarketDataResult<MarketQuote>>;
+  getPreviousClose(symbol: string): Promise<MarketDataResult<MarketQuote>>;
+  getDailyHistory(symbol: string, from: string, to: string): Promise<MarketDataResult<DailyBar[]>>;
+  // With `since`, only distributions with an ex-date on or after it
+  getDividends(symbol: string, since?: string): Promise<MarketDataResult<MarketDividend[]>>;
+  getSplits(symbol: string): Promise<MarketDataResult<MarketSplit[]>>;
+}
+
+// What the manual provider serves: the session's own price history, current
+// prices and confirmed distributions
+export interface ManualMarketDataSource {
+  priceHistory: PriceHistory;
+  currentPrices: Record<string, number>;
+  schedules: Record<string, DividendData[]>;
+}
+
+export const MARKET_DATA_PROVIDER_LABELS: Record<MarketDataProviderId, string> = {
+  polygon: 'Polygon.io',
+  manual: 'Manual / CSV',
+  fixture: 'Offline Fixture',
+};
+
+export class PolygonMarketData implements MarketDataProvider {
+  readonly id = 'polygon' as const;
+
+  getQuote(symbol: string) {
+    return PolygonService.getRealTimeQuote(symbol);
+  }
+
+  getPreviousClose(symbol: string) {
+    return PolygonService.getCurrentPrice(symbol);
+  }
+
+  getDailyHistory(symbol: string, from: string, to: string) {
+    return PolygonService.getDailyAggregates(symbol, from, to);
+  }
+
+  async getDividends(symbol: string, since?: string): Promise<MarketDataResult<MarketDividend[]>> {
+    const result = await PolygonService.getDividends(symbol, { since });
+    return {
+      ...result,
+      data: result.data?.map(div => ({
+        exDate: div.exDividendDate,
+        payDate: div.paymentDate,
+        recordDate: div.recordDate,
+        declaredDate: div.declaredDate,
+        amount: div.amount,
+      })),
+    };
+  }
+
+  async getSplits(symbol: string): Promise<MarketDataResult<MarketSplit[]>> {
+    const result = await PolygonService.getSplits(symbol);
+    return {
+      ...result,
+      data: result.data?.map(({ executionDate, splitFrom, splitTo }) => ({ executionDate, splitFrom, splitTo })),
+    };
+  }
+}
+
+// Serves the closes and distributions entered by hand or imported from CSV
+// in this session. Nothing leaves the browser.
+export class ManualMarketData implements MarketDataProvider {
+  readonly id = 'manual' as const;
+
+  constructor(private readonly source: ManualMarketDataSource) {}
+
+  async getQuote(symbol: string): Promise<MarketDataResult<MarketQuote>> {
+    const points = this.source.priceHistory[symbol] || [];
+    const last = points[points.length - 1];
+    const price = this.source.currentPrices[symbol] || last?.close;
+    if (!price) {
+      return { success: false, error: `No manual price for ${symbol}. Enter one or import closes in Price History.` };
+    }
+    const previous = points.length > 1 ? points[points.length - 2].close : price;
+    return { success: true, data: this.toQuote(symbol, price, previous, last?.date) };
+  }
+
+  async getPreviousClose(symbol: string): Promise<MarketDataResult<MarketQuote>> {
+    const points = this.source.priceHistory[symbol] || [];
+    if (points.length === 0) {
+      return { success: false, error: `No closes for ${symbol}. Add them in Price History.` };
+    }
+    const last = points[points.length - 1];
+    const previous = points.length > 1 ? points[points.length - 2].close : last.close;
+    return { success: true, data: this.toQuote(symbol, last.close, previous, last.date) };
+  }
+
+  async getDailyHistory(symbol: string, from: string, to: string): Promise<MarketDataResult<DailyBar[]>> {
+    const bars = (this.source.priceHistory[symbol] || [])
+      .filter(point => point.date >= from && point.date <= to)
+      .map(point => ({ date: point.date, open: point.close, high: point.close, low: point.close, close: point.close, volume: 0 }));
+    return { success: true, data: bars };
+  }
+
+  async getDividends(symbol: string, since?: string): Promise<MarketDataResult<MarketDividend[]>> {
+    const rows = (this.source.schedules[symbol] || []).filter(row => !since || row.exDate >= since);
+    return {
+      success: true,
+      data: rows.map(row => ({
+        exDate: row.exDate,
+        payDate: row.payDate,
+        recordDate: row.recordDate,
+        amount: row.amount,
+      })),
+    };
+  }
+
+  // Splits are not tracked for manual data
+  async getSplits(): Promise<MarketDataResult<MarketSplit[]>> {
+    return { success: true, data: [] };
+  }
+
+  private toQuote(symbol: string, price: number, previous: number, date?: string): MarketQuote {
+    return {
+      symbol: symbol.toUpperCase(),
+      price,
+      change: price - previous,
+      changePercent: previous > 0 ? ((price - previous) / previous) * 100 : 0,
+      timestamp: date ? Date.parse(`${date}T00:00:00Z`) : Date.now(),
+    };
+  }
+}
+
+interface RecordedTicker {
+  prev: PolygonResponse<PolygonBar>;
+  aggs: PolygonResponse<PolygonBar>;
+  dividends: PolygonResponse<PolygonDividendRecord>;
+  splits: PolygonResponse<PolygonSplitRecord>;
+}
+
+// Replays recorded Polygon.io responses through the same parsers as live
+// requests, for development and tests without network access or a key
+export class FixtureMarketData implements MarketDataProvider {
+  readonly id = 'fixture' as const;
+
+  constructor(private readonly tickers: Record<string, RecordedTicker> = fixture.tickers) {}
+
+  getQuote(symbol: string) {
+    return this.getPreviousClose(symbol);
+  }
+
+  async getPreviousClose(symbol: string): Promise<MarketDataResult<MarketQuote>> {
+    return this.replay(symbol, recorded => PolygonService.parsePreviousClose(symbol, recorded.prev));
+  }
+
+  async getDailyHistory(symbol: string, from: string, to: string): Promise<MarketDataResult<DailyBar[]>> {
+    return this.replay(symbol, recorded =>
+      PolygonService.parseAggregates(recorded.aggs).filter(bar => bar.date >= from && bar.date <= to)
+    );
+  }
+
+  async getDividends(symbol: string, since?: string): Promise<MarketDataResult<MarketDividend[]>> {
+    return this.replay(symbol, recorded =>
+      PolygonService.parseDividends(recorded.dividends)
+        .filter(div => !since || div.exDividendDate >= since)
+        .map(div => ({
+          exDate: div.exDividendDate,
+          payDate: div.paymentDate,
+          recordDate: div.recordDate,
+          declaredDate: div.declaredDate,
+          amount: div.amount,
+        }))
+    );
+  }
+
+  async getSplits(symbol: string): Promise<MarketDataResult<MarketSplit[]>> {
+    return this.replay(symbol, recorded =>
+      PolygonService.parseSplits(recorded.splits).map(({ executionDate, splitFrom, splitTo }) => ({
+        executionDate,
+        splitFrom,
+        splitTo,
+      }))
+    );
+  }
+
+  private replay<T>(symbol: string, parse: (recorded: RecordedTicker) => T): MarketDataResult<T> {
+    const recorded = this.tickers[symbol.toUpperCase()];
+    if (!recorded) {
+      return { success: false, error: `No recorded data for ${symbol}` };
+    }
+    try {
+      return { success: true, data: parse(recorded) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Invalid recorded data' };
+    }
+  }
+}
+
+export class MarketDataProviders {
+  static readonly IDS: MarketDataProviderId[] = ['polygon', 'manual', 'fixture'];
+
+  // VITE_MARKET_DATA_PROVIDER wins; otherwise Polygon when a key is
+  // configured at build time or in this browser, and offline data when not
+  static defaultId(): MarketDataProviderId {
+    const configured = import.meta.env.VITE_MARKET_DATA_PROVIDER;
+    if (this.IDS.includes(configured)) return configured;
+    if (PolygonService.getApiKeySource()) return 'polygon';
+    return import.meta.env.DEV ? 'fixture' : 'manual';
+  }
+
+  // Where a provider's data comes from, for display
+  static describeEndpoint(id: MarketDataProviderId): string {
+    switch (id) {
+      case 'manual':
+        return "This session's price history and confirmed distributions";
+      case 'fixture':
+        return `Bundled recorded responses (recorded ${fixture.recordedAt})`;
+      default:
+        return PolygonService.BASE_URL.startsWith('/')
+          ? `${PolygonService.BASE_URL} (development proxy to https://api.polygon.io)`
+          : PolygonService.BASE_URL;
+    }
+  }
+
+  static create(id: MarketDataProviderId, source: ManualMarketDataSource): MarketDataProvider {
+    switch (id) {
+      case 'manual':
+        return new ManualMarketData(source);
+      case 'fixture':
+        return new FixtureMarketData();
+      default:
+        return new PolygonMarketData();
+    }
+  }
+}
\ No newline at end of file
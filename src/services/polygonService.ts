@@ -1,4 +1,6 @@
 // Polygon.io API service for real-time stock data and dividends
+import { ResponseCache, TokenBucket } from './requestCache';
+
 export interface PolygonStockData {
   symbol: string;
   price: number;
@@ -17,159 +19,196 @@ export interface PolygonDividendData {
   ticker: string;
 }
 
-export class PolygonService {
-  private static readonly BASE_URL = import.meta.env.DEV ? '/api/polygon' : 'https://api.polygon.io';
-  private static readonly API_KEY = import.meta.env.VITE_POLYGON_API_KEY;
+export interface PolygonAggregateBar {
+  date: string; // YYYY-MM-DD, trading day of the bar
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
 
-  // Get current stock price
-  static async getCurrentPrice(symbol: string = 'ULTY'): Promise<{
-    success: boolean;
-    data?: PolygonStockData;
-    error?: string;
-  }> {
-    try {
-      if (!this.API_KEY) {
-        return {
-          success: false,
-          error: 'Polygon API key not configured'
-        };
-      }
+export interface PolygonSplitData {
+  executionDate: string;
+  splitFrom: number;
+  splitTo: number;
+  ticker: string;
+}
 
-      // Get previous close price (most reliable for current price)
-      const response = await fetch(
-        `${this.BASE_URL}/v2/aggs/ticker/${symbol}/prev?adjusted=true&apikey=${this.API_KEY}`
-      );
+// Raw response shapes, as returned by the API
+export interface PolygonResponse<T> {
+  status: string;
+  results?: T[];
+  next_url?: string; // cursor for the next page, when there is one
+}
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+export interface PolygonBar {
+  t: number;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+export interface PolygonDividendRecord {
+  ex_dividend_date: string;
+  pay_date: string;
+  record_date: string;
+  declaration_date: string;
+  cash_amount: number;
+  frequency: number;
+  ticker: string;
+}
 
-      const data = await response.json();
+export interface PolygonSplitRecord {
+  execution_date: string;
+  split_from: number;
+  split_to: number;
+  ticker: string;
+}
 
-      if (data.status !== 'OK' || !data.results || data.results.length === 0) {
-        throw new Error('No price data available');
-      }
+export interface PolygonResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  fromCache?: boolean;
+  fetchedAt?: number; // epoch ms when the data left Polygon
+}
 
-      const result = data.results[0];
-      
-      return {
-        success: true,
-        data: {
-          symbol: symbol.toUpperCase(),
-          price: result.c, // Close price
-          change: result.c - result.o, // Close - Open
-          changePercent: ((result.c - result.o) / result.o) * 100,
-          timestamp: result.t
-        }
-      };
-    } catch (error) {
-      console.error('Error fetching current price:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      };
-    }
+// A non-OK HTTP response, kept so callers can tell rate limits and missing
+// plan access apart from other failures
+class PolygonHttpError extends Error {
+  constructor(readonly status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
   }
+}
 
-  // Get real-time quote (if available)
-  static async getRealTimeQuote(symbol: string = 'ULTY'): Promise<{
-    success: boolean;
-    data?: PolygonStockData;
-    error?: string;
-  }> {
-    try {
-      if (!this.API_KEY) {
-        return {
-          success: false,
-          error: 'Polygon API key not configured'
-        };
-      }
+export class PolygonService {
+  static readonly BASE_URL = import.meta.env.DEV ? '/api/polygon' : 'https://api.polygon.io';
+  private static readonly BUILD_API_KEY: string | undefined = import.meta.env.VITE_POLYGON_API_KEY;
 
-      const response = await fetch(
-        `${this.BASE_URL}/v2/last/nbbo/${symbol}?apikey=${this.API_KEY}`
-      );
+  // A key entered at runtime is kept per browser and wins over the build-time
+  // one. It is outside the ulty_ prefix, so session cleanup and share or
+  // portable URLs never include it.
+  private static readonly API_KEY_STORAGE_KEY = 'polygon_api_key';
 
-      if (!response.ok) {
-        // Fall back to previous close if real-time not available
-        return this.getCurrentPrice(symbol);
-      }
+  private static get apiKey(): string | undefined {
+    return this.getStoredApiKey() || this.BUILD_API_KEY;
+  }
 
-      const data = await response.json();
+  // How long each endpoint's responses are served from cache
+  private static readonly CACHE_TTL = {
+    quote: 60 * 1000,
+    previousClose: 15 * 60 * 1000,
+    aggregates: 60 * 60 * 1000,
+    pastAggregates: 7 * 24 * 60 * 60 * 1000, // bars of earlier years no longer change
+    dividends: 6 * 60 * 60 * 1000,
+    splits: 24 * 60 * 60 * 1000,
+  };
 
-      if (data.status !== 'OK' || !data.results) {
-        // Fall back to previous close
-        return this.getCurrentPrice(symbol);
-      }
+  // Free tier: 5 requests per minute. 429s are retried with backoff.
+  private static readonly rateLimiter = new TokenBucket(5, 60 * 1000);
+  private static readonly MAX_RETRIES = 3;
+  private static readonly BACKOFF_MS = 15 * 1000;
 
-      const result = data.results;
-      const midPrice = (result.P + result.p) / 2; // Average of bid and ask
+  // Cursor pages followed per request before giving up
+  private static readonly MAX_PAGES = 20;
 
-      return {
-        success: true,
-        data: {
-          symbol: symbol.toUpperCase(),
-          price: midPrice,
-          change: 0, // Real-time doesn't provide change
-          changePercent: 0,
-          timestamp: result.t
-        }
-      };
-    } catch (error) {
-      console.error('Error fetching real-time quote:', error);
-      // Fall back to previous close
-      return this.getCurrentPrice(symbol);
-    }
+  // Identical requests already on the wire share one response
+  private static readonly inFlight = new Map<string, Promise<PolygonResult<unknown>>>();
+
+  // Set when the key's plan has no real-time quotes, so later quotes go
+  // straight to the previous close instead of spending a request first
+  private static realTimeUnavailable = false;
+
+  // Get current stock price
+  static async getCurrentPrice(symbol: string = 'ULTY'): Promise<PolygonResult<PolygonStockData>> {
+    // Previous close is the most reliable current price
+    const result = await this.request<PolygonResponse<PolygonBar>>(
+      `/v2/aggs/ticker/${symbol}/prev?adjusted=true`,
+      this.CACHE_TTL.previousClose
+    );
+    return this.parseResult(result, body => this.parsePreviousClose(symbol, body), 'Error fetching current price:');
   }
 
-  // Get dividend data
-  static async getDividends(symbol: string = 'ULTY', limit: number = 50): Promise<{
-    success: boolean;
-    data?: PolygonDividendData[];
-    error?: string;
-  }> {
-    try {
-      if (!this.API_KEY) {
-        return {
-          success: false,
-          error: 'Polygon API key not configured'
-        };
-      }
+  // Get real-time quote (if available)
+  static async getRealTimeQuote(symbol: string = 'ULTY'): Promise<PolygonResult<PolygonStockData>> {
+    if (this.realTimeUnavailable) return this.getCurrentPrice(symbol);
 
-      const response = await fetch(
-        `${this.BASE_URL}/v3/reference/dividends?ticker=${symbol}&limit=${limit}&sort=ex_dividend_date&order=desc&apikey=${this.API_KEY}`
-      );
+    const result = await this.request<{ status: string; results?: { P: number; p: number; t: number } }>(
+      `/v2/last/nbbo/${symbol}`,
+      this.CACHE_TTL.quote
+    );
+    const quote = result.data;
+    if (!result.success || !quote || quote.status !== 'OK' || !quote.results) {
+      // Fall back to previous close if real-time not available
+      return this.getCurrentPrice(symbol);
+    }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    const midPrice = (quote.results.P + quote.results.p) / 2; // Average of bid and ask
+    return {
+      ...result,
+      data: {
+        symbol: symbol.toUpperCase(),
+        price: midPrice,
+        change: 0, // Real-time doesn't provide change
+        changePercent: 0,
+        timestamp: quote.results.t
       }
+    };
+  }
 
-      const data = await response.json();
+  // Get dividend data, newest first, following every page. With `since`,
+  // only distributions with an ex-date on or after it are requested.
+  static async getDividends(
+    symbol: string = 'ULTY',
+    options: { since?: string; limit?: number } = {}
+  ): Promise<PolygonResult<PolygonDividendData[]>> {
+    const { since, limit = 1000 } = options;
+    const window = since ? `&ex_dividend_date.gte=${since}` : '';
+    const result = await this.requestAllPages<PolygonDividendRecord>(
+      `/v3/reference/dividends?ticker=${symbol}${window}&limit=${limit}&sort=ex_dividend_date&order=desc`,
+      this.CACHE_TTL.dividends
+    );
+    return this.parseResult(result, body => this.parseDividends(body), 'Error fetching dividends:');
+  }
 
-      if (data.status !== 'OK' || !data.results) {
-        throw new Error('No dividend data available');
-      }
+  // Get daily bars between two dates (inclusive). Long ranges are fetched a
+  // calendar year at a time so finished years stay cached.
+  static async getDailyAggregates(symbol: string, from: string, to: string): Promise<PolygonResult<PolygonAggregateBar[]>> {
+    const currentYear = new Date().getFullYear();
+    const bars: PolygonAggregateBar[] = [];
+    let fromCache = true;
+    let fetchedAt = Date.now();
+    let warning: string | undefined;
 
-      const dividends = data.results.map((div: any) => ({
-        exDividendDate: div.ex_dividend_date,
-        paymentDate: div.pay_date,
-        recordDate: div.record_date,
-        declaredDate: div.declaration_date,
-        amount: div.cash_amount,
-        frequency: div.frequency,
-        ticker: div.ticker
-      }));
+    for (let year = Number(from.slice(0, 4)); year <= Number(to.slice(0, 4)); year++) {
+      const start = year === Number(from.slice(0, 4)) ? from : `${year}-01-01`;
+      const end = year === Number(to.slice(0, 4)) ? to : `${year}-12-31`;
+      const result = await this.requestAllPages<PolygonBar>(
+        `/v2/aggs/ticker/${symbol}/range/1/day/${start}/${end}?adjusted=true&sort=asc&limit=50000`,
+        year < currentYear ? this.CACHE_TTL.pastAggregates : this.CACHE_TTL.aggregates
+      );
+      const parsed = this.parseResult(result, body => this.parseAggregates(body), 'Error fetching daily aggregates:');
+      if (!parsed.success || !parsed.data) return parsed;
 
-      return {
-        success: true,
-        data: dividends
-      };
-    } catch (error) {
-      console.error('Error fetching dividends:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      };
+      bars.push(...parsed.data);
+      fromCache = fromCache && !!parsed.fromCache;
+      fetchedAt = Math.min(fetchedAt, parsed.fetchedAt ?? fetchedAt);
+      warning = warning || parsed.error;
     }
+
+    return { success: true, data: bars, fromCache, fetchedAt, error: warning };
+  }
+
+  // Get splits, newest first
+  static async getSplits(symbol: string = 'ULTY', limit: number = 50): Promise<PolygonResult<PolygonSplitData[]>> {
+    const result = await this.request<PolygonResponse<PolygonSplitRecord>>(
+      `/v3/reference/splits?ticker=${symbol}&limit=${limit}&sort=execution_date&order=desc`,
+      this.CACHE_TTL.splits
+    );
+    return this.parseResult(result, body => this.parseSplits(body), 'Error fetching splits:');
   }
 
   // Get comprehensive stock data (price + dividends)
@@ -207,13 +246,15 @@ export class PolygonService {
     }
   }
 
-  // Check API key validity
-  static async validateApiKey(): Promise<boolean> {
+  // Check API key validity, the active key unless another is given. Never
+  // cached, but still rate limited.
+  static async validateApiKey(apiKey: string | undefined = this.apiKey): Promise<boolean> {
     try {
-      if (!this.API_KEY) return false;
+      if (!apiKey) return false;
 
+      await this.rateLimiter.take();
       const response = await fetch(
-        `${this.BASE_URL}/v2/aggs/ticker/AAPL/prev?adjusted=true&apikey=${this.API_KEY}`
+        `${this.BASE_URL}/v2/aggs/ticker/AAPL/prev?adjusted=true&apikey=${encodeURIComponent(apiKey)}`
       );
 
       return response.ok;
@@ -221,4 +262,220 @@ export class PolygonService {
       return false;
     }
   }
+
+  // Where the active key comes from
+  static getApiKeySource(): 'runtime' | 'build' | null {
+    if (this.getStoredApiKey()) return 'runtime';
+    return this.BUILD_API_KEY ? 'build' : null;
+  }
+
+  // Last four characters of the active key, for display
+  static getMaskedApiKey(): string | null {
+    const key = this.apiKey;
+    return key ? `••••${key.slice(-4)}` : null;
+  }
+
+  static setApiKey(apiKey: string): void {
+    localStorage.setItem(this.API_KEY_STORAGE_KEY, apiKey.trim());
+    this.realTimeUnavailable = false; // a new key may have a different plan
+  }
+
+  static clearApiKey(): void {
+    localStorage.removeItem(this.API_KEY_STORAGE_KEY);
+    this.realTimeUnavailable = false;
+  }
+
+  private static getStoredApiKey(): string | null {
+    try {
+      return localStorage.getItem(this.API_KEY_STORAGE_KEY) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Cached body when fresh, else a shared in-flight request, else a new
+  // rate-limited request. Paths exclude the API key, so cache keys do too.
+  private static async request<T>(path: string, ttlMs: number): Promise<PolygonResult<T>> {
+    if (!this.apiKey) {
+      return {
+        success: false,
+        error: 'Polygon API key not configured'
+      };
+    }
+
+    const cached = ResponseCache.get<T>(path, ttlMs);
+    if (cached) {
+      return { success: true, data: cached.body, fromCache: true, fetchedAt: cached.fetchedAt };
+    }
+
+    const pending = this.inFlight.get(path);
+    if (pending) return pending as Promise<PolygonResult<T>>;
+
+    const promise = this.fetchWithRetry<T>(path)
+      .then((body): PolygonResult<T> => {
+        const entry = ResponseCache.set(path, body);
+        return { success: true, data: body, fromCache: false, fetchedAt: entry.fetchedAt };
+      })
+      .catch((error): PolygonResult<T> => {
+        console.error(`Polygon request failed (${path}):`, error);
+        if (error instanceof PolygonHttpError && path.startsWith('/v2/last/') && (error.status === 401 || error.status === 403)) {
+          this.realTimeUnavailable = true;
+        }
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error occurred'
+        };
+      })
+      .finally(() => this.inFlight.delete(path));
+    this.inFlight.set(path, promise);
+    return promise;
+  }
+
+  // Follows next_url cursors and joins every page's results. Each page is its
+  // own cached, rate-limited request. A result cut short by MAX_PAGES still
+  // succeeds, with a warning in `error`.
+  private static async requestAllPages<R>(path: string, ttlMs: number): Promise<PolygonResult<PolygonResponse<R>>> {
+    const results: R[] = [];
+    let status = 'OK';
+    let fromCache = true;
+    let fetchedAt = Date.now();
+    let next: string | undefined = path;
+
+    for (let page = 0; next && page < this.MAX_PAGES; page++) {
+      const result: PolygonResult<PolygonResponse<R>> = await this.request<PolygonResponse<R>>(next, ttlMs);
+      if (!result.success || !result.data) return result;
+
+      if (page === 0) status = result.data.status;
+      results.push(...(result.data.results || []));
+      fromCache = fromCache && !!result.fromCache;
+      fetchedAt = Math.min(fetchedAt, result.fetchedAt ?? fetchedAt);
+      next = result.data.next_url ? this.toPath(result.data.next_url) : undefined;
+    }
+
+    if (next) console.warn(`Polygon pagination stopped after ${this.MAX_PAGES} pages (${path})`);
+    return {
+      success: true,
+      data: { status, results },
+      fromCache,
+      fetchedAt,
+      error: next ? `Stopped after ${this.MAX_PAGES} pages; older data was not fetched` : undefined
+    };
+  }
+
+  // next_url is absolute and may carry a key; keep the path and query only
+  private static toPath(url: string): string {
+    const parsed = new URL(url, 'https://api.polygon.io');
+    parsed.searchParams.delete('apiKey');
+    parsed.searchParams.delete('apikey');
+    return `${parsed.pathname}${parsed.search}`;
+  }
+
+  // Waits for a token before each attempt. A 429 waits for Retry-After when
+  // given, else backs off exponentially.
+  private static async fetchWithRetry<T>(path: string): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.take();
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await fetch(`${this.BASE_URL}${path}${separator}apikey=${encodeURIComponent(this.apiKey || '')}`);
+
+      if (response.status === 429 && attempt < this.MAX_RETRIES) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        const delay = retryAfter > 0 ? retryAfter * 1000 : this.BACKOFF_MS * 2 ** attempt;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new PolygonHttpError(response.status, response.statusText);
+      }
+
+      return response.json();
+    }
+  }
+
+  // Parse a fetched body; unexpected bodies become an error result
+  private static parseResult<T, U>(
+    result: PolygonResult<T>,
+    parse: (body: T) => U,
+    logMessage: string
+  ): PolygonResult<U> {
+    if (!result.success || result.data === undefined) {
+      return {
+        success: false,
+        error: result.error || 'Unknown error occurred'
+      };
+    }
+    try {
+      return { ...result, data: parse(result.data) };
+    } catch (error) {
+      console.error(logMessage, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  // Response bodies are parsed here so recorded responses can be replayed
+  // through the same code offline
+  static parsePreviousClose(symbol: string, data: PolygonResponse<PolygonBar>): PolygonStockData {
+    if (data.status !== 'OK' || !data.results || data.results.length === 0) {
+      throw new Error('No price data available');
+    }
+
+    const result = data.results[0];
+    return {
+      symbol: symbol.toUpperCase(),
+      price: result.c, // Close price
+      change: result.c - result.o, // Close - Open
+      changePercent: ((result.c - result.o) / result.o) * 100,
+      timestamp: result.t
+    };
+  }
+
+  static parseDividends(data: PolygonResponse<PolygonDividendRecord>): PolygonDividendData[] {
+    if (data.status !== 'OK' || !data.results) {
+      throw new Error('No dividend data available');
+    }
+
+    return data.results.map(div => ({
+      exDividendDate: div.ex_dividend_date,
+      paymentDate: div.pay_date,
+      recordDate: div.record_date,
+      declaredDate: div.declaration_date,
+      amount: div.cash_amount,
+      frequency: div.frequency,
+      ticker: div.ticker
+    }));
+  }
+
+  static parseAggregates(data: PolygonResponse<PolygonBar>): PolygonAggregateBar[] {
+    if (data.status !== 'OK' && data.status !== 'DELAYED') {
+      throw new Error('No aggregate data available');
+    }
+
+    // Bars are stamped at the start of the trading day in New York, which
+    // is still the same calendar day in UTC
+    return (data.results || []).map(bar => ({
+      date: new Date(bar.t).toISOString().split('T')[0],
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      volume: bar.v
+    }));
+  }
+
+  static parseSplits(data: PolygonResponse<PolygonSplitRecord>): PolygonSplitData[] {
+    if (data.status !== 'OK' || !data.results) {
+      throw new Error('No split data available');
+    }
+
+    return data.results.map(split => ({
+      executionDate: split.execution_date,
+      splitFrom: split.split_from,
+      splitTo: split.split_to,
+      ticker: split.ticker
+    }));
+  }
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Persistent response cache and client-side rate limiting for market data
+// requests. Cache keys never include API keys.
+
+export interface CachedResponse<T> {
+  body: T;
+  fetchedAt: number; // epoch ms of the network response
+}
+
+export class ResponseCache {
+  // Shared by all sessions, so it stays outside the ulty_ prefix that
+  // StorageManager groups into sessions and cleans up
+  private static readonly STORAGE_KEY = 'marketdata_cache';
+  private static readonly MAX_ENTRIES = 100; // oldest are dropped beyond this
+
+  // Cached body when it is younger than ttlMs
+  static get<T>(key: string, ttlMs: number, now: number = Date.now()): CachedResponse<T> | null {
+    const entry = this.load()[key];
+    if (!entry || now - entry.fetchedAt > ttlMs) return null;
+    return entry as CachedResponse<T>;
+  }
+
+  static set<T>(key: string, body: T, now: number = Date.now()): CachedResponse<T> {
+    const entry = { body, fetchedAt: now };
+    const entries = { ...this.load(), [key]: entry };
+    const kept = Object.entries(entries)
+      .sort((a, b) => b[1].fetchedAt - a[1].fetchedAt)
+      .slice(0, this.MAX_ENTRIES);
+    this.save(Object.fromEntries(kept));
+    return entry;
+  }
+
+  static stats(): { entries: number; oldest: number | null } {
+    const times = Object.values(this.load()).map(entry => entry.fetchedAt);
+    return { entries: times.length, oldest: times.length > 0 ? Math.min(...times) : null };
+  }
+
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  // "just now", "12 min ago", "3 h ago", "2 days ago"
+  static formatAge(fetchedAt: number, now: number = Date.now()): string {
+    const minutes = Math.floor((now - fetchedAt) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} h ago`;
+    const days = Math.floor(hours / 24);
+    return `${days} day${days === 1 ? '' : 's'} ago`;
+  }
+
+  private static load(): Record<string, CachedResponse<unknown>> {
+    try {
+      const raw = localStorage.getItem(this.STORAGE_KEY);
+      return raw ? JSON.parse(raw).entries || {} : {};
+    } catch {
+      return {};
+    }
+  }
+
+  // A full storage quota only costs the cache, never the request
+  private static save(entries: Record<string, CachedResponse<unknown>>): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ entries, lastModified: new Date().toISOString() }));
+    } catch (error) {
+      console.warn('Could not persist market data cache:', error);
+    }
+  }
+}
+
+// Allows `capacity` requests at once, refilled evenly over `periodMs`
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly capacity: number, private readonly periodMs: number) {
+    this.tokens = capacity;
+  }
+
+  // Resolves once a request may be sent
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const wait = ((1 - this.tokens) * this.periodMs) / this.capacity;
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) * this.capacity) / this.periodMs);
+    this.lastRefill = now;
+  }
+}
\ No newline at end of file
@@ -5,6 +5,7 @@ export interface Investment {
   avgPrice: number;
   costBasis: number;
   adjustedCostBasis: number;
+  totalInvested: number; // cash paid for buys, including shares since sold; not DRIP
   currentPrice: number;
   marketValue: number;
   capitalGainLoss: number;
@@ -12,39 +13,291 @@ export interface Investment {
   totalDividends: number;
   totalProfitLoss: number;
   adjustedTotalProfitLoss: number;
-  roi: number;
+  roi: number; // total P&L against totalInvested
   adjustedRoi: number;
   cumulativeROC: number;
   breakEvenPrice: number;
+  realizedGainLoss: number; // closed lots, against adjusted basis
+  shortTermRealizedGainLoss: number;
+  longTermRealizedGainLoss: number;
+  unrealizedGainLoss: number; // open lots, against adjusted basis
+  excessROCGain: number; // ROC received after lot basis reached zero
 }
 
+// Combined figures across every holding. Per-share fields are left out
+// because they have no meaning once different tickers are added together.
+export type PortfolioTotals = Omit<
+  Investment,
+  'symbol' | 'name' | 'shares' | 'avgPrice' | 'currentPrice' | 'breakEvenPrice'
+> & {
+  holdings: number;
+};
+
 export interface Transaction {
   id: string;
+  symbol: string;
   date: string;
   type: 'buy' | 'sell';
   quantity: number;
   price: number;
   amount: number;
+  lotSelections?: LotSelection[]; // Sells only: lots chosen by specific identification
+  source?: TransactionSource; // Left unset on transactions entered by hand
+}
+
+// Where a transaction came from. DRIP buys are generated from distributions
+// and never stored with the session's own transactions.
+export type TransactionSource = 'manual' | 'drip';
+
+// How a sell picks which open lots it closes
+export type LotMethod = 'fifo' | 'lifo' | 'hifo' | 'specific' | 'average';
+
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+// Shares opened by a single buy. Basis figures cover the remaining shares only.
+export interface TaxLot {
+  id: string; // id of the opening buy transaction
+  symbol: string;
+  acquiredDate: string;
+  shares: number;
+  remainingShares: number;
+  costBasis: number;
+  adjustedCostBasis: number; // never below zero
+  excessROC: number; // ROC beyond basis, taxed as a capital gain
+}
+
+// ROC that a lot received after its adjusted basis was already zero
+export interface ExcessROCGain {
+  lotId: string;
+  symbol: string;
+  acquiredDate: string;
+  exDate: string;
+  payDate: string;
+  amount: number;
+  term: HoldingTerm;
+}
+
+// Part of a sell matched against one lot
+export interface LotDisposal {
+  sellId: string;
+  lotId: string;
+  symbol: string;
+  acquiredDate: string;
+  soldDate: string;
+  shares: number;
+  proceeds: number;
+  costBasis: number;
+  adjustedCostBasis: number;
+  gainLoss: number; // proceeds less adjusted basis
+  term: HoldingTerm;
+}
+
+// A sell for more shares than were open on its date. Only the open shares
+// are matched; the rest has no basis and no disposal.
+export interface OversoldSell {
+  sellId: string;
+  symbol: string;
+  date: string;
+  requestedShares: number;
+  availableShares: number;
+}
+
+// Long-term once a lot is held for more than one year
+export type HoldingTerm = 'short' | 'long';
+
+// Realized gains for one tax year, by holding period
+export interface RealizedGainSummary {
+  year: number;
+  shortTerm: number;
+  longTerm: number;
+  excessROC: number;
+  total: number;
+}
+
+// Tax character of one distribution's cash, in dollars. The parts add up to
+// the distribution amount.
+export interface DistributionCharacter {
+  ordinaryIncome: number;
+  qualifiedDividends: number;
+  shortTermCapitalGain: number;
+  longTermCapitalGain: number;
+  returnOfCapital: number;
+}
+
+// Distribution character totals for one tax year, by pay date
+export interface CharacterYearSummary extends DistributionCharacter {
+  year: number;
+  total: number;
+  hasEstimates: boolean;
+}
+
+// Income expected over the next few weeks at current holdings, by pay date
+export interface IncomeForecastWindow {
+  weeks: number;
+  endDate: string;
+  confirmed: number; // declared distributions not yet paid
+  estimated: number;
+  estimatedLow: number;
+  estimatedHigh: number;
+  total: number;
+  distributions: number;
+  isComplete: boolean; // false when the projection stops before endDate
+}
+
+export interface IncomeForecastSummary {
+  windows: IncomeForecastWindow[];
+  annualIncome: number; // from the longest complete window, annualized
+  distributionRate: number; // annualIncome / market value, percent
+  yieldOnCost: number; // annualIncome / original cost basis, percent
+  yieldOnAdjustedCost: number; // annualIncome / adjusted cost basis, percent
 }
 
+// How future distributions are estimated from the confirmed history
+export type EstimationModel = 'mean' | 'median' | 'ewma' | 'linear' | 'yield';
+
+// How far ahead distributions are projected, counted from today
+export type ProjectionHorizon = '13w' | '6m' | '1y' | '2y' | '5y' | 'custom';
+
+export interface PortfolioSettings {
+  lotMethod: LotMethod;
+  dripPercentage: number; // Share of each distribution reinvested; 0 turns DRIP off
+  estimationModel: EstimationModel;
+  estimationLookback: number; // Recent distributions the model looks at
+  projectionHorizon: ProjectionHorizon;
+  projectionEndDate: string; // Used when the horizon is 'custom'
+  marketDataProvider: MarketDataProviderId;
+  autoRefreshMinutes: number; // Price polling interval during market hours; 0 turns it off
+}
+
+// When each kind of market data was last fetched, as ISO timestamps
+export type SyncType = 'prices' | 'dividends';
+export type LastSynced = Partial<Record<SyncType, string>>;
+
+// Where quotes, price history, dividends and splits are fetched from
+export type MarketDataProviderId = 'polygon' | 'manual' | 'fixture';
+
 export interface Dividend {
   id: string;
+  symbol: string;
+  exDate: string;
+  recordDate?: string;
   payDate: string;
   distributionRate: number;
   shares: number;
+  costBasis: number;
   distributionAmount: number;
   rocPercentage: number;
   rocPortion: number;
+  character: DistributionCharacter; // rocPortion is character.returnOfCapital
+  excessROC: number; // part of rocPortion taxed as a gain because lot basis was exhausted
   cumulativeROC: number;
+  reinvestedShares: number; // Bought on the pay date when DRIP is on
   adjustedCostBasis: number;
   adjCostBasis: number;
   breakEvenPrice: number;
   isEstimated?: boolean;
+  distributionLow?: number; // Estimate band for distributionAmount
+  distributionHigh?: number;
 }
 
+// A single distribution. Eligibility is decided by the ex-dividend date:
+// shares must be held before it. Under T+1 settlement the record date falls
+// on the ex-date, so recordDate is only stored when a source provides it.
 export interface DividendData {
-  date: string;
+  exDate: string;
+  recordDate?: string;
+  payDate: string;
   amount: number;
   rocPercentage: number;
   isEstimated?: boolean;
+  amountLow?: number; // Estimate band for amount, on estimated rows only
+  amountHigh?: number;
+  sources?: DistributionSources; // From a Section 19a notice when imported
+  reclassification?: Reclassification; // Set when year-end 1099-DIV figures replaced the above
+}
+
+// Final character from a year's Form 1099-DIV, with the estimated values it replaced
+export interface Reclassification {
+  year: number;
+  original: {
+    rocPercentage: number;
+    sources?: DistributionSources;
+  };
+}
+
+// Effect of year-end reclassification on one ticker, comparing the ledger
+// with the originally estimated character against the final one
+export interface ReclassificationImpact {
+  symbol: string;
+  years: {
+    year: number;
+    distributions: number;
+    rocBefore: number;
+    rocAfter: number;
+  }[];
+  cumulativeROCBefore: number;
+  cumulativeROCAfter: number;
+  adjustedCostBasisBefore: number;
+  adjustedCostBasisAfter: number;
+  breakEvenPriceBefore: number;
+  breakEvenPriceAfter: number;
+}
+
+// Source of a distribution as estimated on a Section 19a notice, in percent.
+// returnOfCapital matches the distribution's rocPercentage.
+export interface DistributionSources {
+  netInvestmentIncome: number;
+  qualifiedDividends?: number; // Part of netInvestmentIncome, when the notice gives it
+  shortTermGains: number;
+  longTermGains: number;
+  returnOfCapital: number;
+}
+
+export type ScheduleChange = 'add' | 'edit' | 'delete' | 'import' | 'reclassify' | 'rollback';
+
+// One saved version of a ticker's confirmed distributions, after the change
+export interface ScheduleRevision {
+  id: string;
+  symbol: string;
+  timestamp: string; // ISO date-time
+  change: ScheduleChange;
+  summary: string;
+  dividends: DividendData[];
+}
+
+// Per-session confirmed distributions, seeded from the built-in schedule
+export interface DividendScheduleState {
+  schedules: Record<string, DividendData[]>;
+  revisions: ScheduleRevision[];
+}
+
+// One daily close. Series are kept per symbol in date order.
+export interface PricePoint {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+export type PriceHistory = Record<string, PricePoint[]>;
+
+// Everything the portfolio engine derives from transactions, schedules and prices
+// Portfolio totals on a past date, captured during the ledger's single pass
+export interface PortfolioSnapshot {
+  date: string;
+  totals: PortfolioTotals | null;
+}
+
+export interface PortfolioLedger {
+  asOf: string;
+  investments: Investment[];
+  dividends: Dividend[];
+  lots: TaxLot[];
+  disposals: LotDisposal[];
+  excessROCGains: ExcessROCGain[];
+  reinvestments: Transaction[];
+  oversells: OversoldSell[];
+  snapshots: PortfolioSnapshot[]; // one per requested snapshot date
+  totals: PortfolioTotals | null;
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_DIVIDENDS } from '../data/dividendSchedule';
+import { Transaction } from '../types/investment';
+import { DataCompression } from './dataCompression';
+import { PortfolioEngine } from './portfolioEngine';
+
+describe('DataCompression portable URLs', () => {
+  const seed = BUILT_IN_DIVIDENDS.ULTY;
+  const edited = [
+    ...seed.slice(1).map(row => (row.exDate === seed[1].exDate ? { ...row, rocPercentage: 80, isEstimated: false } : row)),
+    { exDate: '2030-01-03', payDate: '2030-01-04', amount: 0.05, rocPercentage: 90, recordDate: '2030-01-03' },
+  ];
+
+  it('round-trips the edited schedule as changes against the built-in one', () => {
+    const encoded = DataCompression.compressForURL({
+      transactions: [],
+      dividendSchedules: { ULTY: edited, YMAX: [{ exDate: '2025-06-04', payDate: '2025-06-05', amount: 0.2, rocPercentage: 100 }] },
+    });
+    const decoded = DataCompression.decompressFromURL(encoded);
+
+    expect(decoded.dividendSchedules.ULTY.map((row: { exDate: string }) => row.exDate)).toEqual(
+      edited.map(row => row.exDate)
+    );
+    expect(decoded.dividendSchedules.ULTY[0].rocPercentage).toBe(80);
+    expect(decoded.dividendSchedules.ULTY.at(-1).recordDate).toBe('2030-01-03');
+    expect(decoded.dividendSchedules.YMAX).toHaveLength(1);
+  });
+
+  it('leaves an unedited schedule out and round-trips closes', () => {
+    const encoded = DataCompression.compressForURL({
+      transactions: [],
+      dividendSchedules: { ULTY: seed },
+      priceHistory: { ULTY: [{ date: '2025-06-06', close: 5.8 }] },
+    });
+    const decoded = DataCompression.decompressFromURL(encoded);
+
+    expect(decoded.dividendSchedules).toBeUndefined();
+    expect(decoded.priceHistory).toEqual({ ULTY: [{ date: '2025-06-06', close: 5.8 }] });
+  });
+
+  it('leaves holdings out, since the ledger is rebuilt from transactions', () => {
+    const encoded = DataCompression.compressForURL({ transactions: [], investments: [{ symbol: 'ULTY', shares: 100 }] });
+
+    expect(JSON.parse(decodeURIComponent(atob(encoded)))).not.toHaveProperty('i');
+  });
+});
+
+describe('DataCompression lot selections', () => {
+  const transactions: Transaction[] = [
+    { id: 'b1', symbol: 'YMAX', date: '2025-01-02', type: 'buy', quantity: 100, price: 10, amount: 1000 },
+    {
+      id: 's1',
+      symbol: 'YMAX',
+      date: '2025-03-03',
+      type: 'sell',
+      quantity: 15,
+      price: 12,
+      amount: 180,
+      lotSelections: [
+        { lotId: 'drip-YMAX-2025-01-10', quantity: 5 },
+        { lotId: 'b1', quantity: 10 },
+      ],
+    },
+  ];
+
+  it('round-trips a specific-ID sell from a reinvested lot', () => {
+    const decoded = DataCompression.decompressFromURL(DataCompression.compressForURL({ transactions }));
+    const ledger = PortfolioEngine.calculate({
+      transactions: decoded.transactions,
+      schedules: { YMAX: [{ exDate: '2025-01-09', payDate: '2025-01-10', amount: 0.5, rocPercentage: 0 }] },
+      prices: { YMAX: 10 },
+      asOf: '2025-12-31',
+      lotMethod: 'specific',
+      dripPercentage: 100,
+    });
+
+    expect(decoded.transactions[1].lotSelections).toEqual([
+      { lotId: 'drip-YMAX-2025-01-10', quantity: 5 },
+      { lotId: '0', quantity: 10 },
+    ]);
+    expect(ledger.disposals.map(d => [d.lotId, d.shares])).toEqual([['drip-YMAX-2025-01-10', 5], ['0', 10]]);
+  });
+});
\ No newline at end of file
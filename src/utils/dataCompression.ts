@@ -1,28 +1,49 @@
+import { DividendData, PriceHistory, Transaction } from '../types/investment';
+import { BUILT_IN_DIVIDENDS, DEFAULT_SYMBOL } from '../data/dividendSchedule';
+import { Precision } from './precision';
+import { PortfolioEngine } from './portfolioEngine';
+
+// Schedule rows as [exDate, payDate, amount, rocPercentage, other fields]
+type CompressedScheduleRow = [string, string, number, number, Partial<DividendData>?];
+
+// A ticker's schedule as changes against the built-in one: rows added or
+// edited, and built-in ex-dates deleted
+interface CompressedSchedule {
+  a?: CompressedScheduleRow[];
+  d?: string[];
+}
+
 // Data compression utilities for reducing URL and storage size
 export class DataCompression {
   // Compress portfolio data for URLs (aggressive compression)
   static compressForURL(data: any): string {
     try {
-      // Remove unnecessary fields and compress structure
+      const transactions: Transaction[] = data.transactions || [];
+      const transactionIndex = new Map(transactions.map((t, index) => [t.id, index]));
+
+      // Holdings are left out; the ledger is rebuilt from the transactions
       const compressed = {
-        i: data.investment ? {
-          s: data.investment.shares,
-          ap: data.investment.avgPrice,
-          cp: data.investment.currentPrice,
-          cb: data.investment.costBasis,
-          acb: data.investment.adjustedCostBasis,
-          mv: data.investment.marketValue,
-          td: data.investment.totalDividends,
-          cr: data.investment.cumulativeROC,
-          bp: data.investment.breakEvenPrice
-        } : null,
-        t: data.transactions?.map((t: any) => [
+        t: transactions.map((t: Transaction) => [
           t.date,
           t.type === 'buy' ? 1 : 0,
-          t.quantity,
-          t.price
-        ]) || [],
-        cp: data.currentPrice || 6.23,
+          Precision.roundShares(t.quantity),
+          t.price,
+          t.symbol,
+          // Chosen lots point at their buy by position, since ids are not kept,
+          // and reinvested lots by their pay date
+          ...(t.lotSelections?.length
+            ? [t.lotSelections.map(sel => [this.compressLotRef(sel.lotId, t.symbol, transactionIndex), sel.quantity])]
+            : [])
+        ]),
+        cp: data.currentPrices || {},
+        lm: data.settings?.lotMethod,
+        dp: data.settings?.dripPercentage || undefined,
+        em: data.settings?.estimationModel,
+        el: data.settings?.estimationLookback,
+        ph: data.settings?.projectionHorizon,
+        pe: data.settings?.projectionEndDate || undefined,
+        sd: this.compressSchedules(data.dividendSchedules),
+        pc: this.compressCloses(data.priceHistory),
         ts: Date.now() // timestamp
       };
       
@@ -39,38 +60,44 @@ export class DataCompression {
     try {
       const jsonString = decodeURIComponent(atob(encodedData));
       const compressed = JSON.parse(jsonString);
+
+      // Links created before multi-ticker support hold a single price rather
+      // than a per-symbol map. Holdings (i) in older links are not read.
+      const currentPrices: Record<string, number> = typeof compressed.cp === 'number'
+        ? { [DEFAULT_SYMBOL]: compressed.cp }
+        : compressed.cp || {};
       
       // Reconstruct full data structure
       const decompressed = {
-        investment: compressed.i ? {
-          symbol: 'ULTY',
-          name: 'ULTY',
-          shares: compressed.i.s,
-          avgPrice: compressed.i.ap,
-          currentPrice: compressed.i.cp,
-          costBasis: compressed.i.cb,
-          adjustedCostBasis: compressed.i.acb,
-          marketValue: compressed.i.mv,
-          capitalGainLoss: compressed.i.mv - compressed.i.cb,
-          adjustedCapitalGainLoss: compressed.i.mv - compressed.i.acb,
-          totalDividends: compressed.i.td,
-          totalProfitLoss: (compressed.i.mv - compressed.i.cb) + compressed.i.td,
-          adjustedTotalProfitLoss: (compressed.i.mv - compressed.i.acb) + (compressed.i.td - compressed.i.cr),
-          roi: compressed.i.cb > 0 ? (((compressed.i.mv - compressed.i.cb) + compressed.i.td) / compressed.i.cb) * 100 : 0,
-          adjustedRoi: compressed.i.acb > 0 ? (((compressed.i.mv - compressed.i.acb) + (compressed.i.td - compressed.i.cr)) / compressed.i.acb) * 100 : 0,
-          cumulativeROC: compressed.i.cr,
-          breakEvenPrice: compressed.i.bp
-        } : null,
         transactions: compressed.t?.map((t: any, index: number) => ({
           id: index.toString(),
+          symbol: t[4] || DEFAULT_SYMBOL,
           date: t[0],
           type: t[1] === 1 ? 'buy' : 'sell',
           quantity: t[2],
           price: t[3],
-          amount: t[2] * t[3]
+          amount: Precision.roundMoney(t[2] * t[3]),
+          ...(t[5] ? {
+            lotSelections: t[5].map(([lotRef, quantity]: [number | string, number]) => ({
+              lotId: typeof lotRef === 'string'
+                ? PortfolioEngine.dripLotId(t[4] || DEFAULT_SYMBOL, lotRef)
+                : String(lotRef),
+              quantity
+            }))
+          } : {})
         })) || [],
-        currentPrice: compressed.cp,
+        currentPrices,
+        settings: {
+          ...(compressed.lm ? { lotMethod: compressed.lm } : {}),
+          ...(compressed.dp ? { dripPercentage: compressed.dp } : {}),
+          ...(compressed.em ? { estimationModel: compressed.em } : {}),
+          ...(compressed.el ? { estimationLookback: compressed.el } : {}),
+          ...(compressed.ph ? { projectionHorizon: compressed.ph } : {}),
+          ...(compressed.pe ? { projectionEndDate: compressed.pe } : {})
+        },
         dividends: [], // Will be recalculated
+        ...(compressed.sd ? { dividendSchedules: this.expandSchedules(compressed.sd) } : {}),
+        ...(compressed.pc ? { priceHistory: this.expandCloses(compressed.pc) } : {}),
         createdAt: new Date(compressed.ts).toISOString()
       };
       
@@ -81,6 +108,87 @@ export class DataCompression {
     }
   }
 
+  // A buy's position in the transaction list, or a DRIP lot's pay date
+  private static compressLotRef(
+    lotId: string,
+    symbol: string,
+    transactionIndex: Map<string, number>
+  ): number | string | undefined {
+    const dripPrefix = PortfolioEngine.dripLotId(symbol, '');
+    return lotId.startsWith(dripPrefix) ? lotId.slice(dripPrefix.length) : transactionIndex.get(lotId);
+  }
+
+  private static compressSchedules(
+    schedules: Record<string, DividendData[]> | undefined
+  ): Record<string, CompressedSchedule> | undefined {
+    if (!schedules) return undefined;
+    const compressed: Record<string, CompressedSchedule> = {};
+    Object.entries(schedules).forEach(([symbol, rows]) => {
+      const seed = BUILT_IN_DIVIDENDS[symbol] || [];
+      const added = rows
+        .filter(row => !seed.some(seedRow => this.sameRow(seedRow, row)))
+        .map(({ exDate, payDate, amount, rocPercentage, ...rest }): CompressedScheduleRow => {
+          delete rest.isEstimated; // every stored row is confirmed
+          return Object.keys(rest).length > 0
+            ? [exDate, payDate, amount, rocPercentage, rest]
+            : [exDate, payDate, amount, rocPercentage];
+        });
+      const deleted = seed.filter(seedRow => !rows.some(row => row.exDate === seedRow.exDate)).map(row => row.exDate);
+      if (added.length > 0 || deleted.length > 0) {
+        compressed[symbol] = {
+          ...(added.length > 0 ? { a: added } : {}),
+          ...(deleted.length > 0 ? { d: deleted } : {}),
+        };
+      }
+    });
+    return Object.keys(compressed).length > 0 ? compressed : undefined;
+  }
+
+  private static expandSchedules(compressed: Record<string, CompressedSchedule>): Record<string, DividendData[]> {
+    const schedules: Record<string, DividendData[]> = Object.fromEntries(
+      Object.entries(BUILT_IN_DIVIDENDS).map(([symbol, rows]) => [symbol, rows.map(row => ({ ...row }))])
+    );
+    Object.entries(compressed).forEach(([symbol, { a = [], d = [] }]) => {
+      const added: DividendData[] = a.map(([exDate, payDate, amount, rocPercentage, rest]) => ({
+        ...rest,
+        exDate,
+        payDate,
+        amount,
+        rocPercentage,
+      }));
+      schedules[symbol] = [
+        ...(schedules[symbol] || []).filter(row =>
+          !d.includes(row.exDate) && !added.some(addedRow => addedRow.exDate === row.exDate)
+        ),
+        ...added,
+      ].sort((x, y) => x.exDate.localeCompare(y.exDate));
+    });
+    return schedules;
+  }
+
+  private static sameRow(a: DividendData, b: DividendData): boolean {
+    return a.exDate === b.exDate
+      && a.payDate === b.payDate
+      && a.amount === b.amount
+      && a.rocPercentage === b.rocPercentage
+      && a.recordDate === b.recordDate
+      && JSON.stringify(a.sources) === JSON.stringify(b.sources)
+      && JSON.stringify(a.reclassification) === JSON.stringify(b.reclassification);
+  }
+
+  // Closes as [date, close] pairs per ticker
+  private static compressCloses(history: PriceHistory | undefined): Record<string, [string, number][]> | undefined {
+    const entries = Object.entries(history || {}).filter(([, points]) => points.length > 0);
+    if (entries.length === 0) return undefined;
+    return Object.fromEntries(entries.map(([symbol, points]) => [symbol, points.map(p => [p.date, p.close])]));
+  }
+
+  private static expandCloses(compressed: Record<string, [string, number][]>): PriceHistory {
+    return Object.fromEntries(
+      Object.entries(compressed).map(([symbol, points]) => [symbol, points.map(([date, close]) => ({ date, close }))])
+    );
+  }
+
   // Check if URL would be too long
   static wouldURLBeTooLong(data: any, baseURL: string = window.location.origin): boolean {
     const compressed = this.compressForURL(data);
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { DividendData } from '../types/investment';
+import { DividendScheduleManager } from './dividendScheduleManager';
+
+const seed: Record<string, DividendData[]> = {
+  ULTY: [
+    { exDate: '2025-06-05', payDate: '2025-06-06', amount: 0.1, rocPercentage: 90 },
+    { exDate: '2025-06-12', payDate: '2025-06-13', amount: 0.1, rocPercentage: 90 },
+  ],
+};
+
+describe('DividendScheduleManager', () => {
+  it('takes pay-date-only entries as paying the trading day after the ex-date', () => {
+    const rows = DividendScheduleManager.fromFetched(
+      [{ date: '2025-06-13', amount: 0.11 }, { date: '2025-06-23', amount: 0.12 }],
+      seed.ULTY
+    );
+
+    expect(rows.map(row => row.exDate)).toEqual(['2025-06-12', '2025-06-20']);
+    expect(rows.map(row => row.rocPercentage)).toEqual([90, 100]);
+  });
+
+  it('replaces matching rows on import and records a revision', () => {
+    const state = DividendScheduleManager.importEntries(DividendScheduleManager.initialState(seed), 'ULTY', [
+      { exDate: '2025-06-12', payDate: '2025-06-13', amount: 0.11, rocPercentage: 90 },
+      { exDate: '2025-06-20', payDate: '2025-06-23', amount: 0.12, rocPercentage: 100 },
+    ]);
+
+    expect(state.schedules.ULTY.map(row => row.amount)).toEqual([0.1, 0.11, 0.12]);
+    expect(state.revisions).toHaveLength(1);
+    expect(state.revisions[0].change).toBe('import');
+  });
+
+  it('rolls back to a revision or to the seed', () => {
+    const initial = DividendScheduleManager.initialState(seed);
+    const edited = DividendScheduleManager.deleteEntry(initial, 'ULTY', '2025-06-05');
+    const again = DividendScheduleManager.deleteEntry(edited, 'ULTY', '2025-06-12');
+
+    const restored = DividendScheduleManager.rollback(again, 'ULTY', edited.revisions[0].id, seed);
+    expect(restored.schedules.ULTY.map(row => row.exDate)).toEqual(['2025-06-12']);
+    expect(DividendScheduleManager.rollback(again, 'ULTY', null, seed).schedules.ULTY).toHaveLength(2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,227 @@
+import { DistributionSources, DividendData, DividendScheduleState, ScheduleChange } from '../types/investment';
+import { YahooDividendData } from '../services/dividendUpdateService';
+import { TradingCalendar } from './tradingCalendar';
+import { Section19aRow } from './section19a';
+
+// Editing of each session's confirmed distributions. Every change returns a
+// new state and records the ticker's resulting schedule as a revision, so any
+// earlier version can be restored.
+export class DividendScheduleManager {
+  // Oldest revisions are dropped beyond this
+  static readonly MAX_REVISIONS = 50;
+
+  static initialState(seed: Record<string, DividendData[]>): DividendScheduleState {
+    return {
+      schedules: Object.fromEntries(
+        Object.entries(seed).map(([symbol, rows]) => [symbol, rows.map(row => ({ ...row }))])
+      ),
+      revisions: [],
+    };
+  }
+
+  // Convert fetched or manual entries into schedule rows. Entries with only a
+  // date are treated as pay dates with the ex-date on the trading day before.
+  // ROC% is kept from a matching row in the current schedule, else 100%.
+  static fromFetched(items: YahooDividendData[], current: DividendData[] = []): DividendData[] {
+    return items
+      .filter(item => item.amount > 0 && (item.payDate || item.date))
+      .map(item => {
+        const payDate = item.payDate || item.date;
+        const exDate = item.exDate || TradingCalendar.previousTradingDay(payDate);
+        const match = current.find(div => div.exDate === exDate || div.payDate === payDate);
+        return {
+          exDate,
+          ...(item.recordDate ? { recordDate: item.recordDate } : {}),
+          payDate,
+          amount: item.amount,
+          rocPercentage: match ? match.rocPercentage : 100,
+        };
+      });
+  }
+
+  // Confirmed rows replace rows on the same ex-date or pay date; everything
+  // else is inserted. The result is sorted by ex-date.
+  static merge(existing: DividendData[], incoming: DividendData[]): DividendData[] {
+    const merged = existing.filter(div =>
+      !incoming.some(row => row.exDate === div.exDate || row.payDate === div.payDate)
+    );
+    incoming.forEach(row => {
+      // The same distribution can appear twice in one fetch; keep the last
+      const index = merged.findIndex(div => div.exDate === row.exDate);
+      const confirmed = { ...row, isEstimated: false };
+      if (index >= 0) merged[index] = confirmed;
+      else merged.push(confirmed);
+    });
+    return this.sort(merged);
+  }
+
+  static importEntries(state: DividendScheduleState, symbol: string, incoming: DividendData[]): DividendScheduleState {
+    if (incoming.length === 0) return state;
+    const dividends = this.merge(state.schedules[symbol] || [], incoming);
+    return this.commit(state, symbol, dividends, 'import', `Imported ${incoming.length} distribution${incoming.length === 1 ? '' : 's'}`);
+  }
+
+  // Add a distribution, or replace the one at originalExDate when editing
+  static saveEntry(
+    state: DividendScheduleState,
+    symbol: string,
+    entry: DividendData,
+    originalExDate?: string
+  ): DividendScheduleState {
+    const existing = state.schedules[symbol] || [];
+    const previous = existing.find(div => div.exDate === (originalExDate ?? entry.exDate));
+    const row = { ...entry, isEstimated: false };
+    const dividends = this.sort([
+      ...existing.filter(div => div.exDate !== entry.exDate && div.exDate !== originalExDate),
+      row,
+    ]);
+
+    return previous
+      ? this.commit(state, symbol, dividends, 'edit', this.describeEdit(previous, row))
+      : this.commit(state, symbol, dividends, 'add', `Added ${row.exDate}: ${this.describeRow(row)}`);
+  }
+
+  // Set Section 19a sources on the distributions they describe, matched by
+  // pay date and then ex-date. ROC% follows the notice's return of capital.
+  static applySources(
+    state: DividendScheduleState,
+    symbol: string,
+    notices: Section19aRow[]
+  ): { state: DividendScheduleState; matched: number; unmatched: string[] } {
+    const dividends = (state.schedules[symbol] || []).map(row => ({ ...row }));
+    const unmatched: string[] = [];
+    let matched = 0;
+
+    notices.forEach(notice => {
+      const row = dividends.find(div => div.payDate === notice.date) ||
+        dividends.find(div => div.exDate === notice.date);
+      if (!row) {
+        unmatched.push(notice.date);
+        return;
+      }
+      row.sources = { ...notice.sources };
+      row.rocPercentage = notice.sources.returnOfCapital;
+      matched++;
+    });
+
+    if (matched === 0) return { state, matched, unmatched };
+    return {
+      state: this.commit(state, symbol, dividends, 'import', `Imported Section 19a sources for ${matched} distribution${matched === 1 ? '' : 's'}`),
+      matched,
+      unmatched,
+    };
+  }
+
+  // Replace the character of every confirmed distribution paid in a tax year
+  // with the final 1099-DIV percentages, keeping the estimated values
+  static reclassifyYear(
+    state: DividendScheduleState,
+    symbol: string,
+    year: number,
+    sources: DistributionSources
+  ): DividendScheduleState {
+    let count = 0;
+    const dividends = (state.schedules[symbol] || []).map(row => {
+      if (Number(row.payDate.slice(0, 4)) !== year) return row;
+      count++;
+      const original = row.reclassification?.original ?? {
+        rocPercentage: row.rocPercentage,
+        ...(row.sources ? { sources: row.sources } : {}),
+      };
+      return {
+        ...row,
+        sources: { ...sources },
+        rocPercentage: sources.returnOfCapital,
+        reclassification: { year, original },
+      };
+    });
+    if (count === 0) return state;
+    return this.commit(state, symbol, dividends, 'reclassify', `Applied ${year} 1099-DIV to ${count} distribution${count === 1 ? '' : 's'}: ${sources.returnOfCapital}% ROC`);
+  }
+
+  // Put back the estimated character a reclassification replaced
+  static undoReclassification(state: DividendScheduleState, symbol: string, year: number): DividendScheduleState {
+    let count = 0;
+    const dividends = (state.schedules[symbol] || []).map(row => {
+      if (row.reclassification?.year !== year) return row;
+      count++;
+      return this.withOriginalCharacter(row);
+    });
+    if (count === 0) return state;
+    return this.commit(state, symbol, dividends, 'reclassify', `Removed ${year} 1099-DIV reclassification`);
+  }
+
+  // A row as it was before any year-end reclassification
+  static withOriginalCharacter(row: DividendData): DividendData {
+    if (!row.reclassification) return row;
+    const { original } = row.reclassification;
+    const restored: DividendData = { ...row, rocPercentage: original.rocPercentage, sources: original.sources };
+    delete restored.reclassification;
+    if (!restored.sources) delete restored.sources;
+    return restored;
+  }
+
+  static deleteEntry(state: DividendScheduleState, symbol: string, exDate: string): DividendScheduleState {
+    const existing = state.schedules[symbol] || [];
+    const removed = existing.find(div => div.exDate === exDate);
+    if (!removed) return state;
+    const dividends = existing.filter(div => div.exDate !== exDate);
+    return this.commit(state, symbol, dividends, 'delete', `Deleted ${exDate}: ${this.describeRow(removed)}`);
+  }
+
+  // Restore a ticker to a saved revision, or to the seed when no revision is
+  // given. The restore is itself recorded so it can be undone.
+  static rollback(
+    state: DividendScheduleState,
+    symbol: string,
+    revisionId: string | null,
+    seed: Record<string, DividendData[]>
+  ): DividendScheduleState {
+    const revision = revisionId ? state.revisions.find(r => r.id === revisionId && r.symbol === symbol) : null;
+    if (revisionId && !revision) return state;
+
+    const dividends = revision ? revision.dividends : seed[symbol] || [];
+    const summary = revision
+      ? `Restored version from ${new Date(revision.timestamp).toLocaleString('en-US')}`
+      : 'Restored built-in schedule';
+    return this.commit(state, symbol, dividends.map(row => ({ ...row })), 'rollback', summary);
+  }
+
+  private static commit(
+    state: DividendScheduleState,
+    symbol: string,
+    dividends: DividendData[],
+    change: ScheduleChange,
+    summary: string
+  ): DividendScheduleState {
+    const revision = {
+      id: `${Date.now()}-${state.revisions.length}`,
+      symbol,
+      timestamp: new Date().toISOString(),
+      change,
+      summary,
+      dividends,
+    };
+    return {
+      schedules: { ...state.schedules, [symbol]: dividends },
+      revisions: [...state.revisions, revision].slice(-this.MAX_REVISIONS),
+    };
+  }
+
+  private static describeRow(row: DividendData): string {
+    return `$${row.amount.toFixed(4)}, ${row.rocPercentage}% ROC`;
+  }
+
+  private static describeEdit(before: DividendData, after: DividendData): string {
+    const changes: string[] = [];
+    if (before.exDate !== after.exDate) changes.push(`ex-date ${before.exDate} → ${after.exDate}`);
+    if (before.payDate !== after.payDate) changes.push(`pay date ${before.payDate} → ${after.payDate}`);
+    if (before.amount !== after.amount) changes.push(`amount $${before.amount.toFixed(4)} → $${after.amount.toFixed(4)}`);
+    if (before.rocPercentage !== after.rocPercentage) changes.push(`ROC ${before.rocPercentage}% → ${after.rocPercentage}%`);
+    return `Edited ${before.exDate}: ${changes.length > 0 ? changes.join(', ') : 'no changes'}`;
+  }
+
+  private static sort(rows: DividendData[]): DividendData[] {
+    return rows.sort((a, b) => a.exDate.localeCompare(b.exDate));
+  }
+}
\ No newline at end of file
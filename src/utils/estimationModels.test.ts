@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DividendData } from '../types/investment';
+import { EstimationModels } from './estimationModels';
+
+const history = (amounts: number[]): DividendData[] =>
+  amounts.map((amount, i) => ({
+    exDate: `2025-01-${String(i + 2).padStart(2, '0')}`,
+    payDate: `2025-01-${String(i + 3).padStart(2, '0')}`,
+    amount,
+    rocPercentage: 100,
+  }));
+
+describe('EstimationModels.estimate', () => {
+  const rows = history([0.1, 0.2, 0.3, 0.4]);
+
+  it('averages the lookback window', () => {
+    expect(EstimationModels.estimate(rows, { model: 'mean', lookback: 2 }).amount).toBeCloseTo(0.35);
+    expect(EstimationModels.estimate(rows, { model: 'median', lookback: 3 }).amount).toBeCloseTo(0.3);
+  });
+
+  it('extends a linear trend by step', () => {
+    expect(EstimationModels.estimate(rows, { model: 'linear', lookback: 4 }, 1).amount).toBeCloseTo(0.5);
+    expect(EstimationModels.estimate(rows, { model: 'linear', lookback: 4 }, 3).amount).toBeCloseTo(0.7);
+  });
+
+  it('applies past yields to the current price', () => {
+    const estimate = EstimationModels.estimate(history([0.1, 0.1]), {
+      model: 'yield',
+      lookback: 2,
+      currentPrice: 5,
+      priceOn: () => 10,
+    });
+
+    expect(estimate.amount).toBeCloseTo(0.05);
+  });
+
+  it('never estimates below zero', () => {
+    const estimate = EstimationModels.estimate(history([0.3, 0.2, 0.1]), { model: 'linear', lookback: 3 }, 5);
+
+    expect(estimate.amount).toBe(0);
+    expect(estimate.low).toBe(0);
+    expect(EstimationModels.estimate([], { model: 'mean', lookback: 6 })).toEqual({ amount: 0, low: 0, high: 0 });
+  });
+});
+
+describe('EstimationModels.character', () => {
+  it('weights the ROC share of the lookback window by amount', () => {
+    const rows = history([0.1, 0.1, 0.3]).map((row, i) => ({ ...row, rocPercentage: [100, 100, 20][i] }));
+
+    expect(EstimationModels.character(rows, { lookback: 2 })).toEqual({ rocPercentage: 40 });
+  });
+
+  it('carries the Section 19a split when every row in the window has one', () => {
+    const sources = { netInvestmentIncome: 10, shortTermGains: 0, longTermGains: 0, returnOfCapital: 90 };
+    const rows = history([0.1, 0.1]).map(row => ({ ...row, rocPercentage: 90, sources }));
+
+    expect(EstimationModels.character(rows, { lookback: 2 })).toEqual({ rocPercentage: 90, sources });
+    expect(EstimationModels.character([{ ...rows[0], sources: undefined }, rows[1]], { lookback: 2 }).sources).toBeUndefined();
+  });
+});
\ No newline at end of file
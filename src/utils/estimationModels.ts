@@ -0,0 +1,153 @@
+import { DistributionSources, DividendData, EstimationModel } from '../types/investment';
+
+export const ESTIMATION_MODEL_LABELS: Record<EstimationModel, string> = {
+  mean: 'Trailing Mean',
+  median: 'Trailing Median',
+  ewma: 'Exponentially Weighted',
+  linear: 'Linear Trend',
+  yield: 'Yield on Current Price',
+};
+
+export interface EstimationOptions {
+  model: EstimationModel;
+  lookback: number; // number of most recent distributions used
+  currentPrice?: number; // yield model only
+  priceOn?: (date: string) => number | null; // close on or before a date, yield model only
+}
+
+export interface DistributionEstimate {
+  amount: number;
+  low: number;
+  high: number;
+}
+
+// Per-share estimates for future distributions from the confirmed history.
+// The band is one standard deviation of the model's error over the lookback
+// window either side of the point value, floored at zero.
+export class EstimationModels {
+  static readonly DEFAULT_LOOKBACK = 6;
+
+  // Estimate for the distribution `step` payments after the last confirmed
+  // one (1 = next). Only the linear model changes with the step.
+  static estimate(history: DividendData[], options: EstimationOptions, step: number = 1): DistributionEstimate {
+    const window = history.slice(-Math.max(1, Math.round(options.lookback)));
+    if (window.length === 0) return { amount: 0, low: 0, high: 0 };
+
+    const amounts = window.map(div => div.amount);
+    let amount: number;
+    let spread: number;
+
+    switch (options.model) {
+      case 'median': {
+        amount = this.median(amounts);
+        spread = this.deviation(amounts, amount);
+        break;
+      }
+      case 'ewma': {
+        amount = this.ewma(amounts);
+        spread = this.deviation(amounts, amount);
+        break;
+      }
+      case 'linear': {
+        const { slope, intercept } = this.fitLine(amounts);
+        const fitted = amounts.map((_, i) => intercept + slope * i);
+        amount = intercept + slope * (amounts.length - 1 + step);
+        spread = this.deviation(amounts.map((value, i) => value - fitted[i]), 0);
+        break;
+      }
+      case 'yield': {
+        // Each past distribution as a fraction of the price on its ex-date,
+        // applied to today's price. Falls back to the mean without prices.
+        const price = options.currentPrice || 0;
+        const yields = window
+          .map(div => {
+            const close = options.priceOn?.(div.exDate) || price;
+            return close > 0 ? div.amount / close : null;
+          })
+          .filter((value): value is number => value !== null);
+        if (price > 0 && yields.length > 0) {
+          const averageYield = this.mean(yields);
+          amount = averageYield * price;
+          spread = this.deviation(yields, averageYield) * price;
+        } else {
+          amount = this.mean(amounts);
+          spread = this.deviation(amounts, amount);
+        }
+        break;
+      }
+      default: {
+        amount = this.mean(amounts);
+        spread = this.deviation(amounts, amount);
+      }
+    }
+
+    amount = Math.max(amount, 0);
+    return {
+      amount,
+      low: Math.max(amount - spread, 0),
+      high: amount + spread,
+    };
+  }
+
+  // Tax character for estimates: the amount-weighted ROC% over the lookback
+  // window, and its Section 19a split when every row in the window has one
+  static character(history: DividendData[], options: Pick<EstimationOptions, 'lookback'>): Pick<DividendData, 'rocPercentage' | 'sources'> {
+    const window = history.slice(-Math.max(1, Math.round(options.lookback)));
+    const total = window.reduce((sum, div) => sum + div.amount, 0);
+    if (total <= 0) return { rocPercentage: 0 };
+
+    const weighted = (value: (div: DividendData) => number) =>
+      Math.round(window.reduce((sum, div) => sum + value(div) * div.amount, 0) / total * 100) / 100;
+    const rocPercentage = weighted(div => div.rocPercentage);
+    if (!window.every(div => div.sources)) return { rocPercentage };
+
+    const sources: DistributionSources = {
+      netInvestmentIncome: weighted(div => div.sources!.netInvestmentIncome),
+      shortTermGains: weighted(div => div.sources!.shortTermGains),
+      longTermGains: weighted(div => div.sources!.longTermGains),
+      returnOfCapital: rocPercentage,
+    };
+    if (window.some(div => div.sources!.qualifiedDividends !== undefined)) {
+      sources.qualifiedDividends = weighted(div => div.sources!.qualifiedDividends || 0);
+    }
+    return { rocPercentage, sources };
+  }
+
+  private static mean(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0) / values.length;
+  }
+
+  private static median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  // Oldest to newest with the usual 2 / (n + 1) smoothing factor
+  private static ewma(values: number[]): number {
+    const alpha = 2 / (values.length + 1);
+    return values.slice(1).reduce((average, value) => alpha * value + (1 - alpha) * average, values[0]);
+  }
+
+  // Least-squares line through the values at x = 0..n-1
+  private static fitLine(values: number[]): { slope: number; intercept: number } {
+    const n = values.length;
+    if (n < 2) return { slope: 0, intercept: values[0] || 0 };
+    const meanX = (n - 1) / 2;
+    const meanY = this.mean(values);
+    let numerator = 0;
+    let denominator = 0;
+    values.forEach((value, x) => {
+      numerator += (x - meanX) * (value - meanY);
+      denominator += (x - meanX) ** 2;
+    });
+    const slope = numerator / denominator;
+    return { slope, intercept: meanY - slope * meanX };
+  }
+
+  // Root mean square distance of the values from a centre
+  private static deviation(values: number[], centre: number): number {
+    if (values.length < 2) return 0;
+    return Math.sqrt(values.reduce((total, value) => total + (value - centre) ** 2, 0) / values.length);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DividendData } from '../types/investment';
+import { IncomeForecast } from './incomeForecast';
+import { PortfolioEngine } from './portfolioEngine';
+import { TradingCalendar } from './tradingCalendar';
+
+const today = '2025-01-06';
+
+// Sixty weekly distributions of $0.10, the first two confirmed
+const schedule: DividendData[] = Array.from({ length: 60 }, (_, week) => ({
+  exDate: TradingCalendar.shift('2025-01-09', week * 7),
+  payDate: TradingCalendar.shift('2025-01-10', week * 7),
+  amount: 0.1,
+  rocPercentage: 100,
+  isEstimated: week >= 2,
+  ...(week >= 2 ? { amountLow: 0.08, amountHigh: 0.12 } : {}),
+}));
+
+const ledger = PortfolioEngine.calculate({
+  transactions: [{ id: 'a', symbol: 'ULTY', date: '2025-01-02', type: 'buy', quantity: 100, price: 10, amount: 1000 }],
+  schedules: { ULTY: schedule },
+  prices: { ULTY: 10 },
+  asOf: today,
+  lotMethod: 'fifo',
+  dripPercentage: 0,
+});
+
+describe('IncomeForecast.forecast', () => {
+  const summary = IncomeForecast.forecast(ledger.dividends, ledger.investments, today);
+
+  it('splits each window into confirmed and estimated income', () => {
+    const [fourWeeks] = summary.windows;
+
+    expect(fourWeeks.distributions).toBe(4);
+    expect(fourWeeks.confirmed).toBeCloseTo(20);
+    expect(fourWeeks.estimated).toBeCloseTo(20);
+    expect(fourWeeks.estimatedLow).toBeCloseTo(16);
+    expect(fourWeeks.estimatedHigh).toBeCloseTo(24);
+  });
+
+  it('annualizes from the longest complete window', () => {
+    expect(summary.windows.every(window => window.isComplete)).toBe(true);
+    expect(summary.annualIncome).toBeCloseTo(520);
+    expect(summary.distributionRate).toBeCloseTo(52);
+    expect(summary.yieldOnCost).toBeCloseTo(52);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { Dividend, IncomeForecastSummary, IncomeForecastWindow, Investment } from '../types/investment';
+import { TradingCalendar } from './tradingCalendar';
+
+// Forward income at today's share counts. The ledger's own amounts include
+// shares a projected DRIP would add, so each distribution is re-priced from
+// its per-share rate and the holding's current shares instead.
+export class IncomeForecast {
+  static readonly WINDOWS = [4, 13, 26, 52];
+
+  static forecast(dividends: Dividend[], investments: Investment[], today: string): IncomeForecastSummary {
+    const shares = new Map(investments.map(inv => [inv.symbol, inv.shares]));
+    const upcoming = dividends.filter(div => div.payDate > today && (shares.get(div.symbol) || 0) > 0);
+    const projectedThrough = dividends.reduce((latest, div) => (div.payDate > latest ? div.payDate : latest), today);
+
+    const windows: IncomeForecastWindow[] = this.WINDOWS.map(weeks => {
+      const endDate = TradingCalendar.shift(today, weeks * 7);
+      const window: IncomeForecastWindow = {
+        weeks,
+        endDate,
+        confirmed: 0,
+        estimated: 0,
+        estimatedLow: 0,
+        estimatedHigh: 0,
+        total: 0,
+        distributions: 0,
+        // Weekly payers leave up to a week between the last pay date and the end
+        isComplete: TradingCalendar.shift(projectedThrough, 7) >= endDate,
+      };
+
+      upcoming
+        .filter(div => div.payDate <= endDate)
+        .forEach(div => {
+          const held = shares.get(div.symbol) || 0;
+          const amount = held * div.distributionRate;
+          window.distributions++;
+          window.total += amount;
+          if (!div.isEstimated) {
+            window.confirmed += amount;
+            return;
+          }
+          // Bands are per position in the ledger, so scale them to per share first
+          const perShare = (value: number | undefined) =>
+            value !== undefined && div.shares > 0 ? value / div.shares : div.distributionRate;
+          window.estimated += amount;
+          window.estimatedLow += held * perShare(div.distributionLow);
+          window.estimatedHigh += held * perShare(div.distributionHigh);
+        });
+
+      return window;
+    });
+
+    const longest = [...windows].reverse().find(window => window.isComplete);
+    const annualIncome = longest ? longest.total * (52 / longest.weeks) : 0;
+    const held = investments.filter(inv => inv.shares > 0);
+    const marketValue = held.reduce((sum, inv) => sum + inv.marketValue, 0);
+    const costBasis = held.reduce((sum, inv) => sum + inv.costBasis, 0);
+    const adjustedCostBasis = held.reduce((sum, inv) => sum + inv.adjustedCostBasis, 0);
+    const rate = (base: number) => (base > 0 ? (annualIncome / base) * 100 : 0);
+
+    return {
+      windows,
+      annualIncome,
+      distributionRate: rate(marketValue),
+      yieldOnCost: rate(costBasis),
+      yieldOnAdjustedCost: rate(adjustedCostBasis),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import { DividendData, Transaction } from '../types/investment';
+import { PortfolioEngine, PortfolioEngineInput } from './portfolioEngine';
+
+const trade = (id: string, type: 'buy' | 'sell', date: string, quantity: number, price: number): Transaction => ({
+  id,
+  symbol: 'ULTY',
+  date,
+  type,
+  quantity,
+  price,
+  amount: quantity * price,
+});
+
+const distribution = (exDate: string, payDate: string, amount: number, rocPercentage = 100): DividendData => ({
+  exDate,
+  payDate,
+  amount,
+  rocPercentage,
+});
+
+const calculate = (overrides: Partial<PortfolioEngineInput>) =>
+  PortfolioEngine.calculate({
+    transactions: [],
+    schedules: {},
+    prices: { ULTY: 10 },
+    asOf: '2025-12-31',
+    lotMethod: 'fifo',
+    dripPercentage: 0,
+    ...overrides,
+  });
+
+describe('PortfolioEngine.calculate', () => {
+  it('pays distributions only on shares held before the ex-date', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10), trade('b', 'buy', '2025-01-09', 50, 10)],
+      schedules: { ULTY: [distribution('2025-01-09', '2025-01-10', 0.1)] },
+    });
+
+    expect(ledger.dividends[0].shares).toBe(100);
+    expect(ledger.dividends[0].distributionAmount).toBeCloseTo(10);
+    expect(ledger.investments[0].shares).toBe(150);
+  });
+
+  it('still pays shares sold on or after the ex-date', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10), trade('s', 'sell', '2025-01-09', 100, 11)],
+      schedules: { ULTY: [distribution('2025-01-09', '2025-01-10', 0.1)] },
+    });
+
+    expect(ledger.dividends[0].distributionAmount).toBeCloseTo(10);
+    expect(ledger.investments[0].shares).toBe(0);
+    expect(ledger.disposals).toHaveLength(1);
+  });
+
+  it('lowers adjusted basis by ROC and stops at zero', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 1)],
+      schedules: {
+        ULTY: [
+          distribution('2025-01-09', '2025-01-10', 0.6),
+          distribution('2025-01-16', '2025-01-17', 0.6),
+        ],
+      },
+    });
+    const [holding] = ledger.investments;
+
+    expect(holding.adjustedCostBasis).toBe(0);
+    expect(holding.cumulativeROC).toBeCloseTo(120);
+    expect(holding.excessROCGain).toBeCloseTo(20);
+    expect(ledger.excessROCGains).toHaveLength(1);
+  });
+
+  it('reinvests distributions with DRIP and counts the new shares later', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10)],
+      schedules: {
+        ULTY: [
+          distribution('2025-01-09', '2025-01-10', 0.5, 0),
+          distribution('2025-01-16', '2025-01-17', 0.5, 0),
+        ],
+      },
+      dripPercentage: 100,
+    });
+
+    expect(ledger.reinvestments).toHaveLength(2);
+    expect(ledger.reinvestments[0].quantity).toBeCloseTo(5);
+    expect(ledger.dividends[1].shares).toBeCloseTo(105);
+    // Reinvested money is not counted as new investment
+    expect(ledger.investments[0].costBasis).toBeCloseTo(1000 + 50 + 52.5);
+  });
+
+  it('prices past reinvestments from the close on the pay date', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10)],
+      schedules: { ULTY: [distribution('2025-01-09', '2025-01-10', 0.5, 0)] },
+      priceHistory: { ULTY: [{ date: '2025-01-10', close: 5 }] },
+      dripPercentage: 100,
+    });
+
+    expect(ledger.reinvestments[0].price).toBe(5);
+    expect(ledger.reinvestments[0].quantity).toBeCloseTo(10);
+  });
+
+  it('reports the position as of a past date', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10), trade('b', 'buy', '2025-03-03', 100, 10)],
+      schedules: { ULTY: [distribution('2025-02-06', '2025-02-07', 0.1, 0)] },
+      asOf: '2025-02-28',
+    });
+    const [holding] = ledger.investments;
+
+    expect(holding.shares).toBe(100);
+    expect(holding.totalDividends).toBeCloseTo(10);
+    expect(ledger.lots).toHaveLength(1);
+  });
+
+  it('realizes gains against adjusted basis by holding term', () => {
+    const ledger = calculate({
+      transactions: [
+        trade('a', 'buy', '2024-01-02', 100, 10),
+        trade('b', 'buy', '2025-01-02', 100, 10),
+        trade('s', 'sell', '2025-06-02', 150, 12),
+      ],
+    });
+    const [holding] = ledger.investments;
+
+    expect(holding.longTermRealizedGainLoss).toBeCloseTo(200);
+    expect(holding.shortTermRealizedGainLoss).toBeCloseTo(100);
+    expect(ledger.totals?.realizedGainLoss).toBeCloseTo(300);
+  });
+
+  it('measures ROI against the cash invested for holdings and totals alike', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10), trade('s', 'sell', '2025-06-02', 50, 12)],
+    });
+    const [holding] = ledger.investments;
+
+    expect(holding.totalInvested).toBe(1000);
+    expect(holding.roi).toBeCloseTo(10);
+    expect(ledger.totals?.roi).toBeCloseTo(holding.roi);
+  });
+
+  it('reports sells beyond the open shares instead of dropping them silently', () => {
+    const ledger = calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10), trade('s', 'sell', '2025-02-03', 150, 12)],
+    });
+
+    expect(ledger.oversells).toEqual([
+      { sellId: 's', symbol: 'ULTY', date: '2025-02-03', requestedShares: 150, availableShares: 100 },
+    ]);
+    expect(ledger.investments[0].realizedGainLoss).toBeCloseTo(200);
+  });
+
+  it('keeps DRIP lot ids when earlier schedule rows change', () => {
+    const schedule = [
+      distribution('2025-01-09', '2025-01-10', 0.5, 0),
+      distribution('2025-01-16', '2025-01-17', 0.5, 0),
+    ];
+    const ids = (rows: DividendData[]) => calculate({
+      transactions: [trade('a', 'buy', '2025-01-02', 100, 10)],
+      schedules: { ULTY: rows },
+      dripPercentage: 100,
+    }).reinvestments.map(reinvestment => reinvestment.id);
+
+    expect(ids(schedule)).toEqual(['drip-ULTY-2025-01-10', 'drip-ULTY-2025-01-17']);
+    expect(ids(schedule.slice(1))).toEqual(['drip-ULTY-2025-01-17']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,422 @@
+import {
+  DividendData,
+  Dividend,
+  ExcessROCGain,
+  Investment,
+  LotDisposal,
+  LotMethod,
+  OversoldSell,
+  PortfolioLedger,
+  PortfolioSnapshot,
+  PortfolioTotals,
+  PriceHistory,
+  TaxLot,
+  Transaction,
+} from '../types/investment';
+import { TaxLotManager } from './taxLots';
+import { Precision } from './precision';
+import { TaxCharacter } from './taxCharacter';
+import { PriceHistoryManager } from './priceHistory';
+
+export interface PortfolioEngineInput {
+  transactions: Transaction[];
+  schedules: Record<string, DividendData[]>;
+  prices: Record<string, number>;
+  asOf: string; // YYYY-MM-DD
+  lotMethod: LotMethod;
+  dripPercentage: number; // 0-100
+  priceHistory?: PriceHistory; // daily closes for pricing past dates
+  snapshotDates?: string[]; // extra dates to capture totals on, in the same pass
+  snapshotPrice?: (symbol: string, date: string) => number; // price for a snapshot date
+}
+
+// Per-holding options passed down from the engine input
+type HoldingOptions = Pick<PortfolioEngineInput, 'asOf' | 'lotMethod' | 'dripPercentage'> & {
+  priceHistory: PriceHistory;
+  snapshotDates: string[];
+  snapshotPrice: (symbol: string, date: string) => number;
+};
+
+// Running position for one symbol while its events are replayed
+interface PositionState {
+  lots: TaxLot[];
+  cumulativeROC: number;
+  totalDividends: number;
+  totalInvested: number;
+  realizedGainLoss: number; // against adjusted basis, as reported for taxes
+  shortTermRealizedGainLoss: number;
+  longTermRealizedGainLoss: number;
+  realizedCostGainLoss: number; // against original cost, for unadjusted P&L
+  excessROCGain: number;
+}
+
+const sumLots = (lots: TaxLot[], field: 'remainingShares' | 'costBasis' | 'adjustedCostBasis') =>
+  lots.reduce((total, lot) => total + lot[field], 0);
+
+// Framework-free portfolio calculations. Each holding is built in one
+// chronological pass over its transactions and distributions.
+export class PortfolioEngine {
+  static calculate({
+    transactions,
+    schedules,
+    prices,
+    asOf,
+    lotMethod,
+    dripPercentage,
+    priceHistory = {},
+    snapshotDates = [],
+    snapshotPrice,
+  }: PortfolioEngineInput): PortfolioLedger {
+    const symbols = Array.from(new Set(transactions.map(t => t.symbol))).sort();
+    const investments: Investment[] = [];
+    const dividends: Dividend[] = [];
+    const lots: TaxLot[] = [];
+    const disposals: LotDisposal[] = [];
+    const excessROCGains: ExcessROCGain[] = [];
+    const reinvestments: Transaction[] = [];
+    const oversells: OversoldSell[] = [];
+    const dates = Array.from(new Set(snapshotDates)).sort();
+    const snapshotInvestments = new Map<string, Investment[]>(dates.map(date => [date, []]));
+
+    for (const symbol of symbols) {
+      const symbolTransactions = transactions
+        .filter(t => t.symbol === symbol)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const schedule = [...(schedules[symbol] || [])].sort((a, b) => a.exDate.localeCompare(b.exDate));
+      const price = this.getPrice(symbol, prices, priceHistory, symbolTransactions, asOf);
+
+      const holding = this.calculateHolding(symbol, symbolTransactions, schedule, price, {
+        asOf,
+        lotMethod,
+        dripPercentage,
+        priceHistory,
+        snapshotDates: dates,
+        snapshotPrice: snapshotPrice || (() => price),
+      });
+      investments.push(holding.investment);
+      dividends.push(...holding.dividends);
+      lots.push(...holding.lots);
+      disposals.push(...holding.disposals);
+      excessROCGains.push(...holding.excessROCGains);
+      reinvestments.push(...holding.reinvestments);
+      oversells.push(...holding.oversells);
+      holding.snapshots.forEach((investment, date) => snapshotInvestments.get(date)?.push(investment));
+    }
+
+    const snapshots: PortfolioSnapshot[] = dates.map(date => ({
+      date,
+      totals: this.calculateTotals(snapshotInvestments.get(date) || []),
+    }));
+
+    return {
+      asOf,
+      investments,
+      dividends,
+      lots,
+      disposals,
+      excessROCGains,
+      reinvestments,
+      oversells,
+      snapshots,
+      totals: this.calculateTotals(investments),
+    };
+  }
+
+  // Sum every holding into one portfolio-wide view
+  static calculateTotals(investments: Investment[]): PortfolioTotals | null {
+    if (investments.length === 0) return null;
+
+    const sum = (field: keyof Investment) =>
+      investments.reduce((total, inv) => total + (inv[field] as number), 0);
+
+    const costBasis = sum('costBasis');
+    const adjustedCostBasis = sum('adjustedCostBasis');
+    const totalInvested = sum('totalInvested');
+    const totalProfitLoss = sum('totalProfitLoss');
+    const adjustedTotalProfitLoss = sum('adjustedTotalProfitLoss');
+
+    return {
+      holdings: investments.length,
+      costBasis,
+      adjustedCostBasis,
+      totalInvested,
+      marketValue: sum('marketValue'),
+      capitalGainLoss: sum('capitalGainLoss'),
+      adjustedCapitalGainLoss: sum('adjustedCapitalGainLoss'),
+      totalDividends: sum('totalDividends'),
+      realizedGainLoss: sum('realizedGainLoss'),
+      shortTermRealizedGainLoss: sum('shortTermRealizedGainLoss'),
+      longTermRealizedGainLoss: sum('longTermRealizedGainLoss'),
+      unrealizedGainLoss: sum('unrealizedGainLoss'),
+      excessROCGain: sum('excessROCGain'),
+      totalProfitLoss,
+      adjustedTotalProfitLoss,
+      roi: totalInvested > 0 ? totalProfitLoss / totalInvested * 100 : 0,
+      adjustedRoi: adjustedCostBasis > 0 ? adjustedTotalProfitLoss / adjustedCostBasis * 100 : 0,
+      cumulativeROC: sum('cumulativeROC'),
+    };
+  }
+
+  // Price for a symbol: the current quote, else the latest stored close, else
+  // the most recent trade price
+  // Reinvested lots have no transaction of their own; the id comes from the
+  // pay date so specific-lot sells keep pointing at the same lot when other
+  // schedule rows are added or removed
+  static dripLotId(symbol: string, payDate: string): string {
+    return `drip-${symbol}-${payDate}`;
+  }
+
+  private static getPrice(
+    symbol: string,
+    prices: Record<string, number>,
+    priceHistory: PriceHistory,
+    sortedTransactions: Transaction[],
+    asOf: string
+  ): number {
+    if (prices[symbol] > 0) return prices[symbol];
+    const close = PriceHistoryManager.priceOn(priceHistory, symbol, asOf);
+    if (close) return close;
+    const lastTrade = sortedTransactions[sortedTransactions.length - 1];
+    return lastTrade ? lastTrade.price : 0;
+  }
+
+  // Replay one symbol's transactions and distributions in date order. Each
+  // buy opens a tax lot and each sell closes lots using the lot method.
+  // Shares count toward a distribution only if bought before its ex-date, and
+  // shares sold on or after the ex-date still receive it. A distribution
+  // counts toward totals from its ex-date, when the holder becomes entitled
+  // to it. With DRIP on, part of each distribution buys shares on its pay
+  // date, and those shares count toward later distributions. The position is
+  // captured for the Investment just before the first event after asOf, and
+  // likewise for each snapshot date.
+  private static calculateHolding(
+    symbol: string,
+    sortedTransactions: Transaction[],
+    sortedSchedule: DividendData[],
+    price: number,
+    { asOf, lotMethod, dripPercentage, priceHistory, snapshotDates, snapshotPrice }: HoldingOptions
+  ): {
+    investment: Investment;
+    dividends: Dividend[];
+    lots: TaxLot[];
+    disposals: LotDisposal[];
+    excessROCGains: ExcessROCGain[];
+    reinvestments: Transaction[];
+    oversells: OversoldSell[];
+    snapshots: Map<string, Investment>;
+  } {
+    const state: PositionState = {
+      lots: [],
+      cumulativeROC: 0,
+      totalDividends: 0,
+      totalInvested: 0,
+      realizedGainLoss: 0,
+      shortTermRealizedGainLoss: 0,
+      longTermRealizedGainLoss: 0,
+      realizedCostGainLoss: 0,
+      excessROCGain: 0,
+    };
+    const dividends: Dividend[] = [];
+    const disposals: LotDisposal[] = [];
+    const excessROCGains: ExcessROCGain[] = [];
+    const reinvestments: Transaction[] = [];
+    const oversells: OversoldSell[] = [];
+    const queue = [...sortedTransactions];
+
+    // asOf and the snapshot dates, each captured before the first later event
+    const captureDates = Array.from(new Set([asOf, ...snapshotDates])).sort();
+    const captured = new Map<string, PositionState>();
+    const captureIfPast = (eventDate: string | null) => {
+      while (captured.size < captureDates.length && (eventDate === null || eventDate > captureDates[captured.size])) {
+        captured.set(captureDates[captured.size], { ...state, lots: state.lots.map(lot => ({ ...lot })) });
+      }
+    };
+
+    let txIndex = 0;
+    const applyTransactionsBefore = (date: string | null) => {
+      while (txIndex < queue.length && (date === null || queue[txIndex].date < date)) {
+        const transaction = queue[txIndex];
+        captureIfPast(transaction.date);
+
+        if (transaction.type === 'buy') {
+          state.lots.push(TaxLotManager.openLot(transaction));
+          // Reinvested distributions are not new money
+          if (transaction.source !== 'drip') state.totalInvested += transaction.amount;
+        } else {
+          const { disposals: closed, oversell } = TaxLotManager.closeLots(state.lots, transaction, lotMethod);
+          if (oversell) oversells.push(oversell);
+          for (const disposal of closed) {
+            state.realizedGainLoss += disposal.gainLoss;
+            if (disposal.term === 'long') {
+              state.longTermRealizedGainLoss += disposal.gainLoss;
+            } else {
+              state.shortTermRealizedGainLoss += disposal.gainLoss;
+            }
+            state.realizedCostGainLoss += disposal.proceeds - disposal.costBasis;
+          }
+          disposals.push(...closed);
+        }
+        txIndex++;
+      }
+    };
+
+    sortedSchedule.forEach((div, index) => {
+      applyTransactionsBefore(div.exDate);
+      captureIfPast(div.exDate);
+
+      const shares = sumLots(state.lots, 'remainingShares');
+      const distributionAmount = shares > 0 ? shares * div.amount : 0;
+      const character = TaxCharacter.split(distributionAmount, div);
+      const rocPortion = character.returnOfCapital;
+      state.cumulativeROC += rocPortion;
+      state.totalDividends += distributionAmount;
+
+      // ROC lowers the basis of each lot held going into the ex-date
+      const excessGains = shares > 0
+        ? TaxLotManager.applyReturnOfCapital(state.lots, div.amount * (div.rocPercentage / 100), div)
+        : [];
+      const excessROC = excessGains.reduce((total, gain) => total + gain.amount, 0);
+      state.excessROCGain += excessROC;
+      excessROCGains.push(...excessGains);
+
+      // Past reinvestments use that day's close when known; projected ones use today's price
+      const reinvestmentPrice = div.payDate <= asOf
+        ? PriceHistoryManager.priceOn(priceHistory, symbol, div.payDate) || price
+        : price;
+      const reinvestment = this.createReinvestment(
+        symbol, div.payDate, distributionAmount, dripPercentage, reinvestmentPrice
+      );
+      if (reinvestment) {
+        // Queue the buy after any transactions already dated on or before the pay date
+        let position = txIndex;
+        while (position < queue.length && queue[position].date <= reinvestment.date) position++;
+        queue.splice(position, 0, reinvestment);
+        reinvestments.push(reinvestment);
+      }
+
+      const adjustedCostBasis = sumLots(state.lots, 'adjustedCostBasis');
+      const breakEvenPrice = shares > 0 ? adjustedCostBasis / shares : 0;
+
+      dividends.push({
+        id: `div-${symbol}-${index}`,
+        symbol,
+        exDate: div.exDate,
+        recordDate: div.recordDate,
+        payDate: div.payDate,
+        distributionRate: div.amount,
+        shares,
+        costBasis: sumLots(state.lots, 'costBasis'),
+        distributionAmount,
+        rocPercentage: div.rocPercentage,
+        rocPortion,
+        character,
+        excessROC,
+        cumulativeROC: state.cumulativeROC,
+        reinvestedShares: reinvestment?.quantity || 0,
+        adjustedCostBasis,
+        adjCostBasis: breakEvenPrice,
+        breakEvenPrice,
+        isEstimated: div.isEstimated || false,
+        ...(div.amountLow !== undefined && div.amountHigh !== undefined ? {
+          distributionLow: shares * div.amountLow,
+          distributionHigh: shares * div.amountHigh,
+        } : {}),
+      });
+    });
+
+    applyTransactionsBefore(null);
+    captureIfPast(null);
+    const position = captured.get(asOf)!;
+
+    return {
+      investment: this.buildInvestment(symbol, position, price),
+      dividends,
+      lots: TaxLotManager.openLots(position.lots),
+      disposals: disposals.filter(disposal => disposal.soldDate <= asOf),
+      excessROCGains: excessROCGains.filter(gain => gain.exDate <= asOf),
+      reinvestments: reinvestments.filter(reinvestment => reinvestment.date <= asOf),
+      oversells: oversells.filter(oversell => oversell.date <= asOf),
+      snapshots: new Map(snapshotDates.map(date => [
+        date,
+        this.buildInvestment(symbol, captured.get(date)!, snapshotPrice(symbol, date)),
+      ])),
+    };
+  }
+
+  // DRIP buy for one distribution, or null when nothing is reinvested
+  private static createReinvestment(
+    symbol: string,
+    payDate: string,
+    distributionAmount: number,
+    dripPercentage: number,
+    price: number
+  ): Transaction | null {
+    const amount = Precision.roundMoney(distributionAmount * (dripPercentage / 100));
+    if (amount <= 0 || price <= 0) return null;
+
+    return {
+      id: this.dripLotId(symbol, payDate),
+      symbol,
+      date: payDate,
+      type: 'buy',
+      quantity: Precision.roundShares(amount / price),
+      price,
+      amount,
+      source: 'drip',
+    };
+  }
+
+  private static buildInvestment(symbol: string, position: PositionState, price: number): Investment {
+    const {
+      lots,
+      cumulativeROC,
+      totalDividends,
+      totalInvested,
+      realizedGainLoss,
+      shortTermRealizedGainLoss,
+      longTermRealizedGainLoss,
+      realizedCostGainLoss,
+      excessROCGain,
+    } = position;
+    const shares = sumLots(lots, 'remainingShares');
+    const costBasis = sumLots(lots, 'costBasis');
+    const adjustedCostBasis = sumLots(lots, 'adjustedCostBasis');
+
+    const avgPrice = shares > 0 ? costBasis / shares : 0;
+    const marketValue = shares * price;
+    const capitalGainLoss = marketValue - costBasis;
+    const adjustedCapitalGainLoss = marketValue - adjustedCostBasis;
+    const totalProfitLoss = capitalGainLoss + realizedCostGainLoss + totalDividends;
+
+    // Don't double count ROC: it already lowered the adjusted basis, except
+    // for the excess over basis, which is a gain in its own right
+    const nonROCDividends = totalDividends - cumulativeROC;
+    const adjustedTotalProfitLoss = adjustedCapitalGainLoss + realizedGainLoss + excessROCGain + nonROCDividends;
+
+    return {
+      symbol,
+      name: symbol,
+      shares,
+      avgPrice,
+      costBasis,
+      adjustedCostBasis,
+      totalInvested,
+      currentPrice: price,
+      marketValue,
+      capitalGainLoss,
+      adjustedCapitalGainLoss,
+      totalDividends,
+      totalProfitLoss,
+      adjustedTotalProfitLoss,
+      roi: totalInvested > 0 ? totalProfitLoss / totalInvested * 100 : 0,
+      adjustedRoi: adjustedCostBasis > 0 ? adjustedTotalProfitLoss / adjustedCostBasis * 100 : 0,
+      cumulativeROC,
+      breakEvenPrice: shares > 0 ? adjustedCostBasis / shares : 0,
+      realizedGainLoss,
+      shortTermRealizedGainLoss,
+      longTermRealizedGainLoss,
+      unrealizedGainLoss: adjustedCapitalGainLoss,
+      excessROCGain,
+    };
+  }
+}
\ No newline at end of file
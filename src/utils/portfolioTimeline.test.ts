@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DividendData, Transaction } from '../types/investment';
+import { PortfolioEngine } from './portfolioEngine';
+import { PortfolioTimeline } from './portfolioTimeline';
+
+const transactions: Transaction[] = [
+  { id: 'a', symbol: 'ULTY', date: '2025-01-02', type: 'buy', quantity: 100, price: 10, amount: 1000 },
+  { id: 's', symbol: 'ULTY', date: '2025-01-21', type: 'sell', quantity: 40, price: 9, amount: 360 },
+];
+const schedules: Record<string, DividendData[]> = {
+  ULTY: ['2025-01-09', '2025-01-16', '2025-01-23'].map(exDate => ({
+    exDate,
+    payDate: exDate,
+    amount: 0.2,
+    rocPercentage: 50,
+  })),
+};
+const priceHistory = {
+  ULTY: [
+    { date: '2025-01-06', close: 9.5 },
+    { date: '2025-01-09', close: 9.2 },
+    { date: '2025-01-16', close: 9.4 },
+  ],
+};
+
+describe('PortfolioTimeline.build', () => {
+  const timeline = PortfolioTimeline.build({
+    transactions,
+    schedules,
+    currentPrices: { ULTY: 9.1 },
+    priceHistory,
+    asOf: '2025-01-31',
+    lotMethod: 'fifo',
+    dripPercentage: 100,
+  });
+
+  it('samples trades, ex-dates, closes and today', () => {
+    expect(timeline.points.map(point => point.date)).toEqual([
+      '2025-01-02', '2025-01-06', '2025-01-09', '2025-01-16', '2025-01-21', '2025-01-23', '2025-01-31',
+    ]);
+    expect(timeline.markers).toHaveLength(2);
+  });
+
+  it('matches the ledger as of each sample date', () => {
+    const point = timeline.points.find(p => p.date === '2025-01-16')!;
+    const { totals } = PortfolioEngine.calculate({
+      transactions,
+      schedules,
+      prices: { ULTY: 9.4 },
+      priceHistory,
+      asOf: '2025-01-16',
+      lotMethod: 'fifo',
+      dripPercentage: 100,
+    });
+
+    expect(point.marketValue).toBeCloseTo(totals!.marketValue);
+    expect(point.adjustedCostBasis).toBeCloseTo(totals!.adjustedCostBasis);
+    expect(point.cumulativeDistributions).toBeCloseTo(totals!.totalDividends);
+    expect(timeline.points[timeline.points.length - 1].marketValue).toBeCloseTo(
+      PortfolioEngine.calculate({
+        transactions,
+        schedules,
+        prices: { ULTY: 9.1 },
+        priceHistory,
+        asOf: '2025-01-31',
+        lotMethod: 'fifo',
+        dripPercentage: 100,
+      }).totals!.marketValue
+    );
+  });
+});
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { PriceHistory, Transaction } from '../types/investment';
+import { PortfolioEngine, PortfolioEngineInput } from './portfolioEngine';
+import { PriceHistoryManager } from './priceHistory';
+
+export interface TimelinePoint {
+  date: string;
+  marketValue: number;
+  costBasis: number;
+  adjustedCostBasis: number;
+  cumulativeDistributions: number;
+  totalReturn: number;
+}
+
+export interface TimelineMarker {
+  date: string;
+  symbol: string;
+  type: 'buy' | 'sell';
+  quantity: number;
+  amount: number;
+}
+
+export interface PortfolioTimelineData {
+  points: TimelinePoint[];
+  markers: TimelineMarker[];
+}
+
+export type PortfolioTimelineInput = Omit<PortfolioEngineInput, 'prices' | 'priceHistory'> & {
+  currentPrices: Record<string, number>;
+  priceHistory: PriceHistory;
+};
+
+// Past sample dates beyond this are thinned out; trades and ex-dates are kept
+const MAX_POINTS = 240;
+
+// Portfolio figures over time, captured at each sample date during a single
+// engine pass, so DRIP buys are priced once as in the ledger. Market value
+// uses the stored close for that date, then the last trade price up to that
+// date, then the current price.
+export class PortfolioTimeline {
+  static build({ transactions, schedules, currentPrices, priceHistory, asOf, ...options }: PortfolioTimelineInput): PortfolioTimelineData {
+    if (transactions.length === 0) return { points: [], markers: [] };
+
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const start = sorted[0].date;
+    const symbols = Array.from(new Set(sorted.map(t => t.symbol)));
+
+    const { snapshots } = PortfolioEngine.calculate({
+      ...options,
+      transactions,
+      schedules,
+      prices: currentPrices,
+      priceHistory,
+      asOf,
+      snapshotDates: this.sampleDates(sorted, schedules, priceHistory, symbols, start, asOf),
+      // The last point is today, which the current quote describes best
+      snapshotPrice: (symbol, date) => date === asOf && currentPrices[symbol] > 0
+        ? currentPrices[symbol]
+        : this.priceOn(symbol, date, sorted, priceHistory, currentPrices),
+    });
+
+    const points = snapshots.map(({ date, totals }) => ({
+      date,
+      marketValue: totals?.marketValue || 0,
+      costBasis: totals?.costBasis || 0,
+      adjustedCostBasis: totals?.adjustedCostBasis || 0,
+      cumulativeDistributions: totals?.totalDividends || 0,
+      totalReturn: totals?.totalProfitLoss || 0,
+    }));
+
+    const markers = sorted
+      .filter(t => t.date <= asOf)
+      .map(t => ({ date: t.date, symbol: t.symbol, type: t.type, quantity: t.quantity, amount: t.amount }));
+
+    return { points, markers };
+  }
+
+  private static priceOn(
+    symbol: string,
+    date: string,
+    sortedTransactions: Transaction[],
+    priceHistory: PriceHistory,
+    currentPrices: Record<string, number>
+  ): number {
+    const close = PriceHistoryManager.priceOn(priceHistory, symbol, date);
+    if (close) return close;
+
+    const lastTrade = sortedTransactions.filter(t => t.symbol === symbol && t.date <= date).pop();
+    return lastTrade ? lastTrade.price : currentPrices[symbol] || 0;
+  }
+
+  // Trade dates, ex-dates and stored closes between the first trade and asOf.
+  // Closes are thinned evenly when there are too many; events always stay.
+  private static sampleDates(
+    sortedTransactions: Transaction[],
+    schedules: PortfolioEngineInput['schedules'],
+    priceHistory: PriceHistory,
+    symbols: string[],
+    start: string,
+    asOf: string
+  ): string[] {
+    const inRange = (date: string) => date >= start && date <= asOf;
+    const events = new Set<string>(sortedTransactions.map(t => t.date).filter(inRange));
+    const closes = new Set<string>();
+
+    for (const symbol of symbols) {
+      for (const div of schedules[symbol] || []) {
+        if (inRange(div.exDate)) events.add(div.exDate);
+      }
+      for (const point of priceHistory[symbol] || []) {
+        if (inRange(point.date)) closes.add(point.date);
+      }
+    }
+    events.add(asOf);
+
+    const closeDates = Array.from(closes).filter(date => !events.has(date)).sort();
+    const room = Math.max(MAX_POINTS - events.size, 0);
+    const kept = closeDates.length <= room
+      ? closeDates
+      : Array.from({ length: room }, (_, i) => closeDates[Math.floor(i * closeDates.length / room)]);
+
+    return Array.from(new Set([...events, ...kept])).sort();
+  }
+}
\ No newline at end of file
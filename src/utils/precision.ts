@@ -0,0 +1,46 @@
+// Rounding policy for shares and money.
+//
+// Share quantities are stored to 6 decimal places, which covers broker
+// reinvestments and fractional-share platforms. Cash amounts (trade amounts,
+// proceeds) are stored to the cent. Prices keep 4 decimal places. Running
+// totals inside the engine are never rounded; only stored values and display
+// are, so rounding errors cannot build up across a long ledger.
+export class Precision {
+  static readonly SHARE_DECIMALS = 6;
+  static readonly PRICE_DECIMALS = 4;
+  static readonly MONEY_DECIMALS = 2;
+
+  // Fraction digits shown for shares; enough for typical DRIP quantities
+  static readonly SHARE_DISPLAY_DECIMALS = 4;
+
+  static roundShares(shares: number): number {
+    return this.round(shares, this.SHARE_DECIMALS);
+  }
+
+  static roundPrice(price: number): number {
+    return this.round(price, this.PRICE_DECIMALS);
+  }
+
+  static roundMoney(amount: number): number {
+    return this.round(amount, this.MONEY_DECIMALS);
+  }
+
+  // Parse user or CSV input; NaN when it is not a number
+  static parseShares(value: string | number): number {
+    const shares = typeof value === 'number' ? value : parseFloat(String(value).replace(/,/g, '').trim());
+    return isNaN(shares) ? NaN : this.roundShares(shares);
+  }
+
+  // Whole numbers show without decimals; fractions show up to 4 places
+  static formatShares(shares: number): string {
+    return shares.toLocaleString('en-US', {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: this.SHARE_DISPLAY_DECIMALS,
+    });
+  }
+
+  private static round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round((value + Number.EPSILON) * factor) / factor;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { PriceHistoryManager } from './priceHistory';
+
+describe('PriceHistoryManager', () => {
+  const points = [
+    { date: '2025-01-02', close: 10 },
+    { date: '2025-01-03', close: 10.5 },
+    { date: '2025-01-06', close: 9.8 },
+  ];
+
+  it('replaces closes on the same day and keeps the series sorted', () => {
+    const merged = PriceHistoryManager.merge(points, [
+      { date: '2025-01-03', close: 10.123456 },
+      { date: '2024-12-31', close: 9.5 },
+      { date: '2025-01-07', close: 0 },
+    ]);
+
+    expect(merged.map(point => point.date)).toEqual(['2024-12-31', '2025-01-02', '2025-01-03', '2025-01-06']);
+    expect(merged[2].close).toBe(10.1235);
+  });
+
+  it('uses the last close on or before a date', () => {
+    const history = { ULTY: points };
+
+    expect(PriceHistoryManager.priceOn(history, 'ULTY', '2025-01-05')).toBe(10.5);
+    expect(PriceHistoryManager.priceOn(history, 'ULTY', '2025-01-06')).toBe(9.8);
+    expect(PriceHistoryManager.priceOn(history, 'ULTY', '2025-01-01')).toBeNull();
+    expect(PriceHistoryManager.priceOn(history, 'YMAX', '2025-01-06')).toBeNull();
+  });
+});
\ No newline at end of file
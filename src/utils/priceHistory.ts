@@ -0,0 +1,46 @@
+import { PriceHistory, PricePoint } from '../types/investment';
+import { Precision } from './precision';
+
+// Daily close series per symbol. Every series is sorted by date with one
+// close per day, so lookups can binary search.
+export class PriceHistoryManager {
+  // Combine two series; incoming closes replace existing ones on the same day
+  static merge(existing: PricePoint[], incoming: PricePoint[]): PricePoint[] {
+    const byDate = new Map(existing.map(point => [point.date, point.close]));
+    for (const point of incoming) {
+      if (point.close > 0) byDate.set(point.date, Precision.roundPrice(point.close));
+    }
+    return Array.from(byDate, ([date, close]) => ({ date, close }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  static remove(points: PricePoint[], date: string): PricePoint[] {
+    return points.filter(point => point.date !== date);
+  }
+
+  // Close on the date, or the last close before it (weekends and holidays).
+  // Null when the series starts after the date.
+  static priceOn(history: PriceHistory, symbol: string, date: string): number | null {
+    const points = history[symbol] || [];
+    let low = 0;
+    let high = points.length - 1;
+    let found: PricePoint | null = null;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (points[mid].date <= date) {
+        found = points[mid];
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    return found ? found.close : null;
+  }
+
+  static range(points: PricePoint[]): { from: string; to: string } | null {
+    if (points.length === 0) return null;
+    return { from: points[0].date, to: points[points.length - 1].date };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { ProjectionHorizon } from '../types/investment';
+
+export const PROJECTION_HORIZON_LABELS: Record<ProjectionHorizon, string> = {
+  '13w': '13 Weeks',
+  '6m': '6 Months',
+  '1y': '1 Year',
+  '2y': '2 Years',
+  '5y': '5 Years',
+  custom: 'Custom',
+};
+
+// End date for projected distributions. Horizons count from today, so the
+// projection moves forward as time passes.
+export class ProjectionHorizons {
+  static readonly DEFAULT: ProjectionHorizon = '1y';
+
+  static endDate(horizon: ProjectionHorizon, today: string, customEndDate?: string): string {
+    const date = new Date(`${today}T00:00:00Z`);
+    switch (horizon) {
+      case '13w':
+        date.setUTCDate(date.getUTCDate() + 13 * 7);
+        break;
+      case '6m':
+        this.addMonths(date, 6);
+        break;
+      case '2y':
+        this.addMonths(date, 24);
+        break;
+      case '5y':
+        this.addMonths(date, 60);
+        break;
+      case 'custom':
+        // A missing or past custom date projects nothing beyond today
+        if (customEndDate && /^\d{4}-\d{2}-\d{2}$/.test(customEndDate)) {
+          return customEndDate > today ? customEndDate : today;
+        }
+        return today;
+      default:
+        this.addMonths(date, 12);
+    }
+    return date.toISOString().split('T')[0];
+  }
+
+  // Month arithmetic that clamps to the last day, so Aug 31 + 6 months is Feb 28/29
+  private static addMonths(date: Date, months: number): void {
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { DividendData, PortfolioLedger, ReclassificationImpact } from '../types/investment';
+import { DividendScheduleManager } from './dividendScheduleManager';
+
+// Compares the ledger built from year-end 1099-DIV character with the one
+// built from the originally estimated character
+export class YearEndReclassification {
+  static hasReclassifications(schedules: Record<string, DividendData[]>): boolean {
+    return Object.values(schedules).some(rows => rows.some(row => row.reclassification));
+  }
+
+  // Schedules with every reclassified row put back to its estimated character
+  static restoreOriginals(schedules: Record<string, DividendData[]>): Record<string, DividendData[]> {
+    return Object.fromEntries(
+      Object.entries(schedules).map(([symbol, rows]) => [
+        symbol,
+        rows.map(row => DividendScheduleManager.withOriginalCharacter(row)),
+      ])
+    );
+  }
+
+  static impact(
+    schedules: Record<string, DividendData[]>,
+    before: PortfolioLedger,
+    after: PortfolioLedger
+  ): ReclassificationImpact[] {
+    return Object.entries(schedules)
+      .map(([symbol, rows]) => {
+        const years = Array.from(new Set(
+          rows.filter(row => row.reclassification).map(row => row.reclassification!.year)
+        )).sort();
+        if (years.length === 0) return null;
+
+        const rocInYear = (ledger: PortfolioLedger, year: number) => ledger.dividends
+          .filter(div => div.symbol === symbol && Number(div.payDate.slice(0, 4)) === year)
+          .reduce((total, div) => total + div.rocPortion, 0);
+        const beforeInvestment = before.investments.find(inv => inv.symbol === symbol);
+        const afterInvestment = after.investments.find(inv => inv.symbol === symbol);
+
+        return {
+          symbol,
+          years: years.map(year => ({
+            year,
+            distributions: rows.filter(row => row.reclassification?.year === year).length,
+            rocBefore: rocInYear(before, year),
+            rocAfter: rocInYear(after, year),
+          })),
+          cumulativeROCBefore: beforeInvestment?.cumulativeROC || 0,
+          cumulativeROCAfter: afterInvestment?.cumulativeROC || 0,
+          adjustedCostBasisBefore: beforeInvestment?.adjustedCostBasis || 0,
+          adjustedCostBasisAfter: afterInvestment?.adjustedCostBasis || 0,
+          breakEvenPriceBefore: beforeInvestment?.breakEvenPrice || 0,
+          breakEvenPriceAfter: afterInvestment?.breakEvenPrice || 0,
+        };
+      })
+      .filter((impact): impact is ReclassificationImpact => impact !== null);
+  }
+}
\ No newline at end of file
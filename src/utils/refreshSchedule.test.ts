@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DividendData } from '../types/investment';
+import { RefreshSchedule } from './refreshSchedule';
+
+// Thursday ex-dates, declared the Wednesday before. 2025-06-20 follows the
+// Juneteenth holiday and was still declared on a Wednesday.
+const rows: DividendData[] = ['2025-06-05', '2025-06-12', '2025-06-20', '2025-06-26'].map(exDate => ({
+  exDate,
+  payDate: exDate,
+  amount: 0.1,
+  rocPercentage: 100,
+}));
+
+const wednesdayMorning = new Date('2025-07-02T15:00:00Z');
+
+describe('RefreshSchedule', () => {
+  it('finds the usual announcement weekday', () => {
+    expect(RefreshSchedule.announcementWeekday(rows)).toBe(3);
+    expect(RefreshSchedule.announcementWeekday([])).toBeNull();
+  });
+
+  it('polls prices at the interval while the market is open', () => {
+    expect(RefreshSchedule.pricesDue(undefined, 15, wednesdayMorning)).toBe(true);
+    expect(RefreshSchedule.pricesDue('2025-07-02T14:50:00Z', 15, wednesdayMorning)).toBe(false);
+    expect(RefreshSchedule.pricesDue(undefined, 0, wednesdayMorning)).toBe(false);
+    expect(RefreshSchedule.pricesDue(undefined, 15, new Date('2025-07-02T22:00:00Z'))).toBe(false);
+  });
+
+  it('checks for declarations hourly until the next one is confirmed', () => {
+    expect(RefreshSchedule.dividendsDue(rows, undefined, wednesdayMorning)).toBe(true);
+    expect(RefreshSchedule.dividendsDue(rows, '2025-07-02T14:30:00Z', wednesdayMorning)).toBe(false);
+    const declared = [...rows, { exDate: '2025-07-03', payDate: '2025-07-07', amount: 0.1, rocPercentage: 100 }];
+    expect(RefreshSchedule.dividendsDue(declared, undefined, wednesdayMorning)).toBe(false);
+    expect(RefreshSchedule.dividendsDue(rows, undefined, new Date('2025-07-01T15:00:00Z'))).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { DividendData } from '../types/investment';
+import { TradingCalendar } from './tradingCalendar';
+
+// When the background refresh should fetch. Prices are polled during the
+// regular NYSE session; declarations are checked on the fund's usual
+// announcement day until the next distribution is confirmed.
+export class RefreshSchedule {
+  static readonly INTERVAL_OPTIONS = [0, 1, 5, 15, 30, 60]; // minutes; 0 is off
+  static readonly DEFAULT_MINUTES = 15;
+  static readonly DECLARATION_CHECK_MINUTES = 60;
+
+  // Declarations go out on the trading day before the ex-date, so the usual
+  // announcement weekday (0 = Sunday) is the most common one among the last
+  // six. Null without history.
+  static announcementWeekday(rows: DividendData[]): number | null {
+    const confirmed = rows.filter(row => !row.isEstimated).slice(-6);
+    if (confirmed.length === 0) return null;
+    const counts = new Map<number, number>();
+    confirmed.forEach(row => {
+      const declared = TradingCalendar.previousTradingDay(row.exDate);
+      const weekday = new Date(`${declared}T00:00:00Z`).getUTCDay();
+      counts.set(weekday, (counts.get(weekday) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+  }
+
+  static pricesDue(lastSynced: string | undefined, intervalMinutes: number, now: Date = new Date()): boolean {
+    if (intervalMinutes <= 0 || !TradingCalendar.isMarketOpen(now)) return false;
+    return this.elapsedMinutes(lastSynced, now) >= intervalMinutes;
+  }
+
+  static dividendsDue(rows: DividendData[], lastSynced: string | undefined, now: Date = new Date()): boolean {
+    const { date } = TradingCalendar.newYorkTime(now);
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (!TradingCalendar.isTradingDay(date) || weekday !== this.announcementWeekday(rows)) return false;
+
+    // Stop once the coming distribution has been confirmed
+    if (rows.some(row => !row.isEstimated && row.exDate > date)) return false;
+    return this.elapsedMinutes(lastSynced, now) >= this.DECLARATION_CHECK_MINUTES;
+  }
+
+  private static elapsedMinutes(lastSynced: string | undefined, now: Date): number {
+    if (!lastSynced) return Infinity;
+    return (now.getTime() - new Date(lastSynced).getTime()) / 60000;
+  }
+}
\ No newline at end of file
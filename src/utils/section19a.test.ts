@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { Section19aParser } from './section19a';
+
+describe('Section19aParser.parse', () => {
+  it('accepts the short headers it suggests', () => {
+    const { rows, errors } = Section19aParser.parse('date,nii,st,lt,roc\n2025-06-06,10,5,5,80');
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{
+      date: '2025-06-06',
+      sources: { netInvestmentIncome: 10, shortTermGains: 5, longTermGains: 5, returnOfCapital: 80 },
+    }]);
+  });
+
+  it('reads notice-style headers, tabs, percent signs and US dates', () => {
+    const text = [
+      'Payable Date\tNet Investment Income\tShort-Term Gains\tLong-Term Gains\tReturn of Capital\tQualified',
+      '06/13/2025\t12.5%\t0%\t0%\t87.5%\t2%',
+    ].join('\n');
+    const { rows, errors } = Section19aParser.parse(text);
+
+    expect(errors).toEqual([]);
+    expect(rows[0].date).toBe('2025-06-13');
+    expect(rows[0].sources).toMatchObject({ netInvestmentIncome: 12.5, returnOfCapital: 87.5, qualifiedDividends: 2 });
+  });
+
+  it('scales fractions and rejects rows that do not add up to 100%', () => {
+    const { rows, errors } = Section19aParser.parse('date,nii,roc\n2025-06-06,0.1,0.9\n2025-06-13,10,80');
+
+    expect(rows[0].sources.returnOfCapital).toBe(90);
+    expect(errors).toEqual(['Row 3: Sources add up to 90.00%, expected 100%']);
+  });
+});
\ No newline at end of file
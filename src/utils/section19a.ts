@@ -0,0 +1,119 @@
+import Papa from 'papaparse';
+import { DistributionSources } from '../types/investment';
+
+export interface Section19aRow {
+  date: string; // pay date or ex-date of the distribution
+  sources: DistributionSources;
+}
+
+export interface Section19aParseResult {
+  rows: Section19aRow[];
+  errors: string[];
+}
+
+// Header patterns, checked in order so "return of capital" is not taken for
+// a gains column
+const COLUMN_PATTERNS: { key: keyof DistributionSources | 'date'; pattern: RegExp }[] = [
+  { key: 'returnOfCapital', pattern: /return of capital|^roc\b/ },
+  { key: 'qualifiedDividends', pattern: /qualified|^qd\b/ },
+  { key: 'shortTermGains', pattern: /^st$|short/ },
+  { key: 'longTermGains', pattern: /^lt$|long/ },
+  { key: 'netInvestmentIncome', pattern: /net investment income|^nii\b|income/ },
+  { key: 'date', pattern: /date|payable|paid/ },
+];
+
+// Parses Section 19a source-of-distribution data pasted from a notice or a
+// CSV. Columns are found by header name, commas or tabs both work, and
+// percentages may be written as 12.5, 12.5% or 0.125.
+export class Section19aParser {
+  static parse(text: string): Section19aParseResult {
+    const results = Papa.parse<Record<string, string>>(text.trim(), {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: header => header.trim().toLowerCase(),
+    });
+
+    const columns = this.findColumns(results.meta.fields || []);
+    if (!columns.date || !columns.returnOfCapital) {
+      return {
+        rows: [],
+        errors: ['Expected a date column and a return of capital column (for example: date,nii,st,lt,roc)'],
+      };
+    }
+
+    const rows: Section19aRow[] = [];
+    const errors: string[] = [];
+
+    results.data.forEach((record, index) => {
+      const rowNumber = index + 2; // header is row 1
+      const date = this.parseDate(record[columns.date!]);
+      if (!date) {
+        errors.push(`Row ${rowNumber}: Invalid date (use YYYY-MM-DD or MM/DD/YYYY)`);
+        return;
+      }
+
+      const values = {
+        netInvestmentIncome: this.parsePercent(columns.netInvestmentIncome && record[columns.netInvestmentIncome]),
+        shortTermGains: this.parsePercent(columns.shortTermGains && record[columns.shortTermGains]),
+        longTermGains: this.parsePercent(columns.longTermGains && record[columns.longTermGains]),
+        returnOfCapital: this.parsePercent(record[columns.returnOfCapital!]),
+      };
+      const qualified = this.parsePercent(columns.qualifiedDividends && record[columns.qualifiedDividends]);
+      if ([...Object.values(values), qualified].some(value => isNaN(value) || value < 0)) {
+        errors.push(`Row ${rowNumber}: Percentages must be non-negative numbers`);
+        return;
+      }
+
+      // Fractions (0.9 for 90%) are accepted when the whole row is written that way.
+      // Qualified dividends are part of net investment income, not a fifth source.
+      const total = Object.values(values).reduce((sum, value) => sum + value, 0);
+      const scale = total > 0 && total <= 1.01 ? 100 : 1;
+      const toPercent = (value: number) => Math.round(value * scale * 100) / 100;
+      const sources: DistributionSources = {
+        netInvestmentIncome: toPercent(values.netInvestmentIncome),
+        shortTermGains: toPercent(values.shortTermGains),
+        longTermGains: toPercent(values.longTermGains),
+        returnOfCapital: toPercent(values.returnOfCapital),
+        ...(columns.qualifiedDividends ? { qualifiedDividends: toPercent(qualified) } : {}),
+      };
+      const scaledTotal = total * scale;
+      if (Math.abs(scaledTotal - 100) > 1) {
+        errors.push(`Row ${rowNumber}: Sources add up to ${scaledTotal.toFixed(2)}%, expected 100%`);
+        return;
+      }
+      if ((sources.qualifiedDividends || 0) > sources.netInvestmentIncome) {
+        errors.push(`Row ${rowNumber}: Qualified dividends cannot exceed net investment income`);
+        return;
+      }
+
+      rows.push({ date, sources });
+    });
+
+    return { rows, errors };
+  }
+
+  private static findColumns(fields: string[]): Partial<Record<keyof DistributionSources | 'date', string>> {
+    const columns: Partial<Record<keyof DistributionSources | 'date', string>> = {};
+    const unused = [...fields];
+    COLUMN_PATTERNS.forEach(({ key, pattern }) => {
+      const index = unused.findIndex(field => pattern.test(field));
+      if (index >= 0) columns[key] = unused.splice(index, 1)[0];
+    });
+    return columns;
+  }
+
+  // Missing optional columns count as 0%
+  private static parsePercent(value: string | undefined): number {
+    if (value === undefined || value.trim() === '') return 0;
+    return parseFloat(value.replace(/[%,\s]/g, ''));
+  }
+
+  private static parseDate(value: string | undefined): string | null {
+    const text = (value || '').trim();
+    if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+    const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (!match) return null;
+    const [, month, day, year] = match;
+    return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  }
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { DataCompression } from './dataCompression';
+
 // Session management utilities for URL-based persistence that works across devices
 export class SessionManager {
   private static SESSION_PARAM = 'session';
@@ -90,9 +92,6 @@ export class SessionManager {
 
   // Create a fully portable URL with embedded data (with compression)
   static createPortableURL(portfolioData: any): string {
-    // Import DataCompression dynamically to avoid circular dependencies
-    const { DataCompression } = require('./dataCompression');
-    
     // Check if URL would be too long
     if (DataCompression.wouldURLBeTooLong(portfolioData)) {
       throw new Error('Portfolio data is too large for a portable URL. Consider using a session-based link instead.');
@@ -110,8 +109,6 @@ export class SessionManager {
     const encodedData = urlParams.get(this.DATA_PARAM);
     
     if (encodedData) {
-      // Import DataCompression dynamically to avoid circular dependencies
-      const { DataCompression } = require('./dataCompression');
       return DataCompression.decompressFromURL(encodedData);
     }
     
@@ -152,6 +152,19 @@ export class StorageManager {
     }
   }
 
+  // Read back a list saved through compressData. Spreading an array into the
+  // timestamped wrapper stores it as an index-keyed object, so rebuild it here.
+  static parseStoredList<T>(raw: string): T[] {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return parsed;
+    if (!parsed || typeof parsed !== 'object') return [];
+
+    return Object.keys(parsed)
+      .filter(key => /^\d+$/.test(key))
+      .sort((a, b) => Number(a) - Number(b))
+      .map(key => parsed[key]);
+  }
+
   // Get storage health status
   static getStorageHealth(): {
     status: 'healthy' | 'warning' | 'critical';
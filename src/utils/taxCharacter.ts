@@ -0,0 +1,57 @@
+import { CharacterYearSummary, Dividend, DividendData, DistributionCharacter } from '../types/investment';
+
+export const CHARACTER_LABELS: Record<keyof DistributionCharacter, string> = {
+  ordinaryIncome: 'Ordinary Income',
+  qualifiedDividends: 'Qualified Dividends',
+  shortTermCapitalGain: 'Short-Term Gain',
+  longTermCapitalGain: 'Long-Term Gain',
+  returnOfCapital: 'Return of Capital',
+};
+
+// Splits distributions into their tax character. Section 19a sources are used
+// when imported; otherwise everything that is not ROC is treated as ordinary
+// income, the usual case for option-income funds.
+export class TaxCharacter {
+  static split(amount: number, div: Pick<DividendData, 'rocPercentage' | 'sources'>): DistributionCharacter {
+    const returnOfCapital = amount * (div.rocPercentage / 100);
+    const sources = div.sources;
+    const shortTermCapitalGain = sources ? amount * (sources.shortTermGains / 100) : 0;
+    const longTermCapitalGain = sources ? amount * (sources.longTermGains / 100) : 0;
+    const qualifiedDividends = sources ? amount * ((sources.qualifiedDividends || 0) / 100) : 0;
+
+    // Ordinary income takes the remainder so the parts always add up
+    const ordinaryIncome = Math.max(
+      amount - returnOfCapital - shortTermCapitalGain - longTermCapitalGain - qualifiedDividends,
+      0
+    );
+
+    return { ordinaryIncome, qualifiedDividends, shortTermCapitalGain, longTermCapitalGain, returnOfCapital };
+  }
+
+  static summarizeByYear(dividends: Dividend[]): CharacterYearSummary[] {
+    const years = new Map<number, CharacterYearSummary>();
+
+    for (const div of dividends) {
+      if (div.distributionAmount <= 0) continue;
+      const year = Number(div.payDate.slice(0, 4));
+      const summary = years.get(year) || {
+        year,
+        ordinaryIncome: 0,
+        qualifiedDividends: 0,
+        shortTermCapitalGain: 0,
+        longTermCapitalGain: 0,
+        returnOfCapital: 0,
+        total: 0,
+        hasEstimates: false,
+      };
+      (Object.keys(CHARACTER_LABELS) as (keyof DistributionCharacter)[]).forEach(key => {
+        summary[key] += div.character[key];
+      });
+      summary.total += div.distributionAmount;
+      summary.hasEstimates = summary.hasEstimates || !!div.isEstimated;
+      years.set(year, summary);
+    }
+
+    return Array.from(years.values()).sort((a, b) => a.year - b.year);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { TaxLot, Transaction } from '../types/investment';
+import { TaxLotManager } from './taxLots';
+
+const buy = (id: string, date: string, quantity: number, price: number): Transaction => ({
+  id,
+  symbol: 'ULTY',
+  date,
+  type: 'buy',
+  quantity,
+  price,
+  amount: quantity * price,
+});
+
+const sell = (date: string, quantity: number, price: number, extra: Partial<Transaction> = {}): Transaction => ({
+  id: 'sell',
+  symbol: 'ULTY',
+  date,
+  type: 'sell',
+  quantity,
+  price,
+  amount: quantity * price,
+  ...extra,
+});
+
+const openLots = (): TaxLot[] => [
+  TaxLotManager.openLot(buy('a', '2024-01-02', 100, 10)),
+  TaxLotManager.openLot(buy('b', '2024-03-01', 100, 12)),
+  TaxLotManager.openLot(buy('c', '2024-06-03', 100, 8)),
+];
+
+describe('TaxLotManager.closeLots', () => {
+  it('closes the oldest lots first under FIFO', () => {
+    const lots = openLots();
+    const { disposals } = TaxLotManager.closeLots(lots, sell('2024-07-01', 150, 11), 'fifo');
+
+    expect(disposals.map(d => [d.lotId, d.shares])).toEqual([['a', 100], ['b', 50]]);
+    expect(disposals[0].gainLoss).toBeCloseTo(100);
+    expect(disposals[1].gainLoss).toBeCloseTo(-50);
+    expect(lots.map(lot => lot.remainingShares)).toEqual([0, 50, 100]);
+  });
+
+  it('reports shares sold beyond the open lots as an oversell', () => {
+    const lots = openLots();
+    const { disposals, oversell } = TaxLotManager.closeLots(lots, sell('2024-07-01', 350, 11), 'fifo');
+
+    expect(disposals.reduce((sum, d) => sum + d.shares, 0)).toBe(300);
+    expect(oversell).toEqual({
+      sellId: 'sell',
+      symbol: 'ULTY',
+      date: '2024-07-01',
+      requestedShares: 350,
+      availableShares: 300,
+    });
+    expect(TaxLotManager.closeLots(openLots(), sell('2024-07-01', 300, 11), 'fifo').oversell).toBeNull();
+  });
+
+  it('closes the newest lot first under LIFO and the costliest under HIFO', () => {
+    const lifo = TaxLotManager.closeLots(openLots(), sell('2024-07-01', 50, 11), 'lifo').disposals;
+    const hifo = TaxLotManager.closeLots(openLots(), sell('2024-07-01', 50, 11), 'hifo').disposals;
+
+    expect(lifo[0].lotId).toBe('c');
+    expect(hifo[0].lotId).toBe('b');
+  });
+
+  it('uses chosen lots first and FIFO for the rest', () => {
+    const { disposals } = TaxLotManager.closeLots(
+      openLots(),
+      sell('2024-07-01', 120, 11, { lotSelections: [{ lotId: 'c', quantity: 100 }] }),
+      'specific'
+    );
+
+    expect(disposals.map(d => [d.lotId, d.shares])).toEqual([['c', 100], ['a', 20]]);
+  });
+
+  it('pools basis across open lots for average cost', () => {
+    const lots = openLots();
+    const [disposal] = TaxLotManager.closeLots(lots, sell('2024-07-01', 30, 11), 'average').disposals;
+
+    expect(disposal.costBasis).toBeCloseTo(300);
+    expect(lots[0].costBasis / lots[0].remainingShares).toBeCloseTo(10);
+  });
+
+  it('classifies lots held more than a year as long term', () => {
+    const lots = openLots();
+    const [disposal] = TaxLotManager.closeLots(lots, sell('2025-01-03', 10, 11), 'fifo').disposals;
+
+    expect(disposal.term).toBe('long');
+    expect(TaxLotManager.holdingTerm('2024-01-02', '2025-01-02')).toBe('short');
+  });
+});
+
+describe('TaxLotManager.applyReturnOfCapital', () => {
+  it('floors adjusted basis at zero and reports the excess as a gain', () => {
+    const lots = [TaxLotManager.openLot(buy('a', '2024-01-02', 100, 1))];
+    const distribution = { exDate: '2024-02-01', payDate: '2024-02-02' };
+
+    expect(TaxLotManager.applyReturnOfCapital(lots, 0.6, distribution)).toEqual([]);
+    const gains = TaxLotManager.applyReturnOfCapital(lots, 0.6, distribution);
+
+    expect(lots[0].adjustedCostBasis).toBe(0);
+    expect(gains).toHaveLength(1);
+    expect(gains[0].amount).toBeCloseTo(20);
+    expect(lots[0].excessROC).toBeCloseTo(20);
+  });
+});
+
+describe('TaxLotManager.summarizeByYear', () => {
+  it('groups sales by year sold and excess ROC by year paid', () => {
+    const lots = openLots();
+    const { disposals } = TaxLotManager.closeLots(lots, sell('2025-02-03', 100, 11), 'fifo');
+    const summary = TaxLotManager.summarizeByYear(disposals, [
+      { lotId: 'a', symbol: 'ULTY', acquiredDate: '2024-01-02', exDate: '2024-12-30', payDate: '2024-12-31', amount: 5, term: 'short' },
+    ]);
+
+    expect(summary.map(year => year.year)).toEqual([2024, 2025]);
+    expect(summary[0].excessROC).toBe(5);
+    expect(summary[1].longTerm).toBeCloseTo(100);
+  });
+});
\ No newline at end of file
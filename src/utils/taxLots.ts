@@ -0,0 +1,196 @@
+import { DividendData, ExcessROCGain, HoldingTerm, LotDisposal, LotMethod, OversoldSell, RealizedGainSummary, TaxLot, Transaction } from '../types/investment';
+
+export const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  fifo: 'FIFO (first in, first out)',
+  lifo: 'LIFO (last in, first out)',
+  hifo: 'HIFO (highest basis first)',
+  specific: 'Specific ID (FIFO when no lot chosen)',
+  average: 'Average cost',
+};
+
+// Tax-lot bookkeeping for the portfolio engine. Lots are mutated in place as
+// sells and distributions are replayed in date order.
+export class TaxLotManager {
+  // Shares below this are treated as fully closed (floating point residue)
+  private static readonly SHARE_EPSILON = 1e-9;
+
+  static openLot(transaction: Transaction): TaxLot {
+    return {
+      id: transaction.id,
+      symbol: transaction.symbol,
+      acquiredDate: transaction.date,
+      shares: transaction.quantity,
+      remainingShares: transaction.quantity,
+      costBasis: transaction.amount,
+      adjustedCostBasis: transaction.amount,
+      excessROC: 0,
+    };
+  }
+
+  static isOpen(lot: TaxLot): boolean {
+    return lot.remainingShares > this.SHARE_EPSILON;
+  }
+
+  // Close shares for a sell. Lots chosen on the sell are used first; anything
+  // left is matched using the portfolio's lot method. Shares sold beyond what
+  // is held are not matched and are reported as an oversell.
+  static closeLots(
+    lots: TaxLot[],
+    sell: Transaction,
+    method: LotMethod
+  ): { disposals: LotDisposal[]; oversell: OversoldSell | null } {
+    const availableShares = this.openLots(lots).reduce((sum, lot) => sum + lot.remainingShares, 0);
+    const disposals: LotDisposal[] = [];
+    const proceedsPerShare = sell.quantity > 0 ? sell.amount / sell.quantity : 0;
+    let remaining = sell.quantity;
+
+    if (method === 'average') {
+      this.poolBasis(lots);
+    }
+
+    for (const selection of sell.lotSelections || []) {
+      const lot = lots.find(l => l.id === selection.lotId && this.isOpen(l));
+      if (!lot || remaining <= this.SHARE_EPSILON) continue;
+      const quantity = Math.min(selection.quantity, lot.remainingShares, remaining);
+      disposals.push(this.consume(lot, quantity, sell, proceedsPerShare));
+      remaining -= quantity;
+    }
+
+    for (const lot of this.orderForMethod(lots, method)) {
+      if (remaining <= this.SHARE_EPSILON) break;
+      const quantity = Math.min(lot.remainingShares, remaining);
+      disposals.push(this.consume(lot, quantity, sell, proceedsPerShare));
+      remaining -= quantity;
+    }
+
+    const oversell = remaining > this.SHARE_EPSILON
+      ? { sellId: sell.id, symbol: sell.symbol, date: sell.date, requestedShares: sell.quantity, availableShares }
+      : null;
+    return { disposals, oversell };
+  }
+
+  // Spread a per-share return of capital across every open lot. Basis stops
+  // at zero; ROC past that point is returned as a capital gain on the lot.
+  static applyReturnOfCapital(
+    lots: TaxLot[],
+    rocPerShare: number,
+    distribution: Pick<DividendData, 'exDate' | 'payDate'>
+  ): ExcessROCGain[] {
+    const gains: ExcessROCGain[] = [];
+    for (const lot of lots) {
+      if (!this.isOpen(lot)) continue;
+      const roc = lot.remainingShares * rocPerShare;
+      const reduction = Math.min(roc, Math.max(lot.adjustedCostBasis, 0));
+      lot.adjustedCostBasis -= reduction;
+
+      const excess = roc - reduction;
+      if (excess > 0) {
+        lot.excessROC += excess;
+        gains.push({
+          lotId: lot.id,
+          symbol: lot.symbol,
+          acquiredDate: lot.acquiredDate,
+          exDate: distribution.exDate,
+          payDate: distribution.payDate,
+          amount: excess,
+          term: this.holdingTerm(lot.acquiredDate, distribution.exDate),
+        });
+      }
+    }
+    return gains;
+  }
+
+  static openLots(lots: TaxLot[]): TaxLot[] {
+    return lots.filter(lot => this.isOpen(lot));
+  }
+
+  // Long-term only when sold after the first anniversary of the acquisition
+  static holdingTerm(acquiredDate: string, soldDate: string): HoldingTerm {
+    const [year, month, day] = acquiredDate.split('-');
+    const anniversary = `${Number(year) + 1}-${month}-${day}`;
+    return soldDate > anniversary ? 'long' : 'short';
+  }
+
+  // Realized gains grouped by tax year, oldest first. Sales count in the year
+  // sold and excess ROC in the year it was paid.
+  static summarizeByYear(disposals: LotDisposal[], excessROCGains: ExcessROCGain[] = []): RealizedGainSummary[] {
+    const byYear = new Map<number, RealizedGainSummary>();
+    const summaryFor = (date: string) => {
+      const year = Number(date.slice(0, 4));
+      const summary = byYear.get(year) || { year, shortTerm: 0, longTerm: 0, excessROC: 0, total: 0 };
+      byYear.set(year, summary);
+      return summary;
+    };
+
+    for (const gain of excessROCGains) {
+      const summary = summaryFor(gain.payDate);
+      summary.excessROC += gain.amount;
+      summary.total += gain.amount;
+    }
+    for (const disposal of disposals) {
+      const summary = summaryFor(disposal.soldDate);
+      if (disposal.term === 'long') {
+        summary.longTerm += disposal.gainLoss;
+      } else {
+        summary.shortTerm += disposal.gainLoss;
+      }
+      summary.total += disposal.gainLoss;
+    }
+    return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+  }
+
+  // Open lots in the order a sell should consume them
+  private static orderForMethod(lots: TaxLot[], method: LotMethod): TaxLot[] {
+    const open = this.openLots(lots);
+    switch (method) {
+      case 'lifo':
+        return open.reverse();
+      case 'hifo':
+        return open.sort((a, b) =>
+          b.adjustedCostBasis / b.remainingShares - a.adjustedCostBasis / a.remainingShares
+        );
+      default:
+        // FIFO, and the fallback for specific-ID and average cost
+        return open;
+    }
+  }
+
+  // Average cost: every open share carries the same basis per share
+  private static poolBasis(lots: TaxLot[]): void {
+    const open = this.openLots(lots);
+    const shares = open.reduce((sum, lot) => sum + lot.remainingShares, 0);
+    if (shares <= this.SHARE_EPSILON) return;
+
+    const costPerShare = open.reduce((sum, lot) => sum + lot.costBasis, 0) / shares;
+    const adjustedPerShare = open.reduce((sum, lot) => sum + lot.adjustedCostBasis, 0) / shares;
+    for (const lot of open) {
+      lot.costBasis = lot.remainingShares * costPerShare;
+      lot.adjustedCostBasis = lot.remainingShares * adjustedPerShare;
+    }
+  }
+
+  private static consume(lot: TaxLot, quantity: number, sell: Transaction, proceedsPerShare: number): LotDisposal {
+    const fraction = quantity / lot.remainingShares;
+    const costBasis = lot.costBasis * fraction;
+    const adjustedCostBasis = lot.adjustedCostBasis * fraction;
+    const proceeds = quantity * proceedsPerShare;
+
+    lot.remainingShares -= quantity;
+    lot.costBasis -= costBasis;
+    lot.adjustedCostBasis -= adjustedCostBasis;
+
+    return {
+      sellId: sell.id,
+      lotId: lot.id,
+      symbol: lot.symbol,
+      acquiredDate: lot.acquiredDate,
+      soldDate: sell.date,
+      shares: quantity,
+      proceeds,
+      costBasis,
+      adjustedCostBasis,
+      gainLoss: proceeds - adjustedCostBasis,
+      term: this.holdingTerm(lot.acquiredDate, sell.date),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { TradingCalendar } from './tradingCalendar';
+
+describe('TradingCalendar', () => {
+  it('observes weekend holidays on the nearest weekday', () => {
+    // Independence Day 2026 is a Saturday; Christmas 2022 a Sunday
+    expect(TradingCalendar.holidayName('2026-07-03')).toBe('Independence Day');
+    expect(TradingCalendar.holidayName('2022-12-26')).toBe('Christmas Day');
+    // New Year's Day on a Saturday is not observed
+    expect(TradingCalendar.isTradingDay('2021-12-31')).toBe(true);
+  });
+
+  it('includes Good Friday and Juneteenth from 2022', () => {
+    expect(TradingCalendar.holidayName('2025-04-18')).toBe('Good Friday');
+    expect(TradingCalendar.isTradingDay('2025-06-19')).toBe(false);
+    expect(TradingCalendar.isTradingDay('2021-06-18')).toBe(true);
+  });
+
+  it('steps over weekends and holidays', () => {
+    expect(TradingCalendar.nextTradingDay('2025-07-03')).toBe('2025-07-07');
+    expect(TradingCalendar.previousTradingDay('2025-06-20')).toBe('2025-06-18');
+    expect(TradingCalendar.rollForward('2025-06-21')).toBe('2025-06-23');
+  });
+
+  it('is open 9:30 to 16:00 New York time on trading days', () => {
+    expect(TradingCalendar.isMarketOpen(new Date('2025-07-02T13:30:00Z'))).toBe(true);
+    expect(TradingCalendar.isMarketOpen(new Date('2025-07-02T13:29:00Z'))).toBe(false);
+    expect(TradingCalendar.isMarketOpen(new Date('2025-07-02T20:00:00Z'))).toBe(false);
+    expect(TradingCalendar.isMarketOpen(new Date('2025-07-04T15:00:00Z'))).toBe(false);
+    // Standard time is UTC-5
+    expect(TradingCalendar.isMarketOpen(new Date('2025-12-01T14:45:00Z'))).toBe(true);
+    expect(TradingCalendar.newYorkTime(new Date('2025-12-02T03:00:00Z')).date).toBe('2025-12-01');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,154 @@
+// NYSE trading calendar, computed by rule for any year. Dates are YYYY-MM-DD
+// strings handled in UTC so local time zones cannot shift a day.
+//
+// Full-day closures: New Year's Day, Martin Luther King Jr. Day, Washington's
+// Birthday, Good Friday, Memorial Day, Juneteenth (from 2022), Independence
+// Day, Labor Day, Thanksgiving and Christmas. A holiday on a Saturday is
+// observed the Friday before and one on a Sunday the Monday after, except New
+// Year's Day on a Saturday, which is not observed. Early closes are ignored
+// because they are still trading days.
+export class TradingCalendar {
+  private static cache = new Map<number, Map<string, string>>();
+
+  // Observed holiday dates for a year, mapped to the holiday name
+  static holidays(year: number): Map<string, string> {
+    const cached = this.cache.get(year);
+    if (cached) return cached;
+
+    const holidays = new Map<string, string>();
+    const add = (date: Date | null, name: string) => {
+      if (date) holidays.set(this.format(date), name);
+    };
+
+    // New Year's Day: Sunday moves to Monday; Saturday is not observed
+    const newYear = this.utc(year, 0, 1);
+    if (newYear.getUTCDay() !== 6) add(this.observed(newYear), "New Year's Day");
+
+    add(this.nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day');
+    add(this.nthWeekday(year, 1, 1, 3), "Washington's Birthday");
+    add(this.addDays(this.easter(year), -2), 'Good Friday');
+    add(this.lastWeekday(year, 4, 1), 'Memorial Day');
+    if (year >= 2022) add(this.observed(this.utc(year, 5, 19)), 'Juneteenth');
+    add(this.observed(this.utc(year, 6, 4)), 'Independence Day');
+    add(this.nthWeekday(year, 8, 1, 1), 'Labor Day');
+    add(this.nthWeekday(year, 10, 4, 4), 'Thanksgiving Day');
+    add(this.observed(this.utc(year, 11, 25)), 'Christmas Day');
+
+    this.cache.set(year, holidays);
+    return holidays;
+  }
+
+  static holidayName(date: string): string | null {
+    return this.holidays(Number(date.slice(0, 4))).get(date) || null;
+  }
+
+  static isTradingDay(date: string): boolean {
+    const day = this.parse(date).getUTCDay();
+    return day !== 0 && day !== 6 && !this.holidayName(date);
+  }
+
+  // The date itself when the market is open, else the next trading day
+  static rollForward(date: string): string {
+    let current = date;
+    while (!this.isTradingDay(current)) current = this.shift(current, 1);
+    return current;
+  }
+
+  // First trading day strictly after the date
+  static nextTradingDay(date: string): string {
+    return this.rollForward(this.shift(date, 1));
+  }
+
+  // Last trading day strictly before the date
+  static previousTradingDay(date: string): string {
+    let current = this.shift(date, -1);
+    while (!this.isTradingDay(current)) current = this.shift(current, -1);
+    return current;
+  }
+
+  // Regular session in New York time, 9:30 to 16:00 on trading days
+  static isMarketOpen(now: Date = new Date()): boolean {
+    const { date, minutes } = this.newYorkTime(now);
+    return this.isTradingDay(date) && minutes >= 9 * 60 + 30 && minutes < 16 * 60;
+  }
+
+  // Calendar date and minutes past midnight in New York for an instant
+  static newYorkTime(now: Date = new Date()): { date: string; minutes: number } {
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: 'America/New_York',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(now).map(part => [part.type, part.value])
+    );
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  }
+
+  static shift(date: string, days: number): string {
+    return this.format(this.addDays(this.parse(date), days));
+  }
+
+  private static observed(date: Date): Date {
+    const day = date.getUTCDay();
+    if (day === 6) return this.addDays(date, -1);
+    if (day === 0) return this.addDays(date, 1);
+    return date;
+  }
+
+  // The nth given weekday (0 = Sunday) of a month
+  private static nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+    const first = this.utc(year, month, 1);
+    const offset = (weekday - first.getUTCDay() + 7) % 7;
+    return this.utc(year, month, 1 + offset + (n - 1) * 7);
+  }
+
+  private static lastWeekday(year: number, month: number, weekday: number): Date {
+    const last = this.utc(year, month + 1, 0);
+    const offset = (last.getUTCDay() - weekday + 7) % 7;
+    return this.addDays(last, -offset);
+  }
+
+  // Western Easter Sunday (anonymous Gregorian algorithm)
+  private static easter(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return this.utc(year, month - 1, day);
+  }
+
+  private static utc(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month, day));
+  }
+
+  private static addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result;
+  }
+
+  private static parse(date: string): Date {
+    return new Date(`${date}T00:00:00Z`);
+  }
+
+  private static format(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
\ No newline at end of file